@@ -1,149 +1,556 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import path from 'path';
 import fs from 'fs';
-import { FtpDeploy, FtpDeployConfig } from './index';
+import { ConfigError, loadConfig, applyNetrc } from './config';
+import { FtpDeploy, FtpDeployConfig, DeployStats, VerifyChecksum, MaintenanceConfig } from './index';
+import { ReportFormat, REPORT_FORMATS, writeReport } from './report';
+import { Protocol, normalizeTransportOptions } from './transports';
+import { Logger, ConsoleLogger } from './logger';
+import { HashAlgorithm, HASH_ALGORITHMS } from './manifest';
+import { parseByteSize } from './limits';
+import { readPlan, writePlan } from './plan';
 
 const program = new Command();
 
+// Exit code of a deploy whose files went up but whose after health check failed
+const EXIT_HEALTH_CHECK_FAILED = 2;
+
+// Replaced before every command once --quiet, --verbose and --no-emoji are known
+let logger: Logger = new ConsoleLogger();
+
 interface CLIConfig {
     config?: string;
+    env?: string;
     host?: string;
     user?: string;
     password?: string;
     port?: number;
     secure?: boolean;
+    protocol?: Protocol;
+    privateKey?: string;
+    passphrase?: string;
+    agent?: string | boolean;
     localDir?: string;
     remoteDir?: string;
     clean?: boolean;
     clearDestination?: boolean;
     dryRun?: boolean;
     preserve?: string;
+    include?: string;
+    exclude?: string;
+    permissions?: string;
+    content?: boolean;
+    out?: string;
+    uploadPhases?: string;
     reconnect?: boolean;
     maxRetries?: number;
     retryDelay?: number;
+    maxRetryDelay?: number;
+    maxErrors?: number;
     rejectUnauthorized?: boolean;
+    atomic?: boolean;
+    keepReleases?: number;
+    concurrency?: number;
+    maxBandwidth?: number;
+    maxFileSize?: number;
+    skipOversized?: boolean;
+    transferTimeout?: number;
+    report?: string;
+    reportFormat?: ReportFormat;
+    quiet?: boolean;
+    verbose?: boolean;
+    emoji?: boolean;
+    verify?: boolean;
+    verifyChecksum?: VerifyChecksum;
+    hashAlgorithm?: HashAlgorithm;
+    hashCache?: boolean;
+    watch?: boolean;
+    watchDebounce?: number;
+    checkpointInterval?: number;
+    lockTimeout?: number;
+    waitForLock?: number;
+    forceUnlock?: boolean;
+    maintenance?: string;
+    maintenancePath?: string;
+    healthCheck?: string;
 }
 
-// Load configuration from file
-function loadConfigFile(configPath: string): Partial<FtpDeployConfig> {
+// Parse a byte count option such as 500K or 2M
+function parseSizeOption(value: string): number {
+    const bytes = parseByteSize(value);
+    if (!bytes) throw new InvalidArgumentError('Expected a positive byte count such as 1048576, 500K or 2M.');
+    return bytes;
+}
+
+// Build the console logger for the output flags
+function createLogger(options: CLIConfig): Logger {
+    return new ConsoleLogger({
+        level: options.quiet ? 'error' : options.verbose ? 'debug' : 'info',
+        emoji: options.emoji
+    });
+}
+
+// Load the config file and selected environment, exiting with per-field errors when invalid
+async function loadConfigFile(options: CLIConfig): Promise<Partial<FtpDeployConfig>> {
     try {
-        const resolvedPath = path.resolve(configPath);
-        if (!fs.existsSync(resolvedPath)) {
-            throw new Error(`Configuration file not found: ${configPath}`);
+        const { config, source, env } = await loadConfig({ file: options.config, env: options.env || process.env.DEPLOY_FTP_ENV });
+        if (source) logger.debug(`⚙️  Loaded configuration from ${source}${env ? ` (environment: ${env})` : ''}`);
+        return config;
+    } catch (error) {
+        if (error instanceof ConfigError) {
+            logger.error(`❌ Invalid configuration in ${error.source}:`);
+            error.errors.forEach((message) => logger.error(`   • ${message}`));
+        } else {
+            logger.error(`❌ Error loading config file: ${error}`);
         }
-        
-        const content = fs.readFileSync(resolvedPath, 'utf8');
-        return JSON.parse(content);
+        process.exit(1);
+    }
+}
+
+// Write the --report file if one was requested
+function saveReport(options: CLIConfig, stats: DeployStats, command: string, config: FtpDeployConfig): void {
+    if (!options.report) return;
+    try {
+        writeReport(stats, options.report, options.reportFormat || 'json', {
+            command,
+            local_dir: config.mappings ? config.mappings.map((mapping) => mapping.local_dir).join(', ') : config.local_dir,
+            remote_dir: config.mappings ? config.mappings.map((mapping) => mapping.remote_dir).join(', ') : config.remote_dir as string,
+            dry_run: config.dry_run
+        });
+        logger.info(`📝 Report written to ${options.report}`);
     } catch (error) {
-        console.error(`❌ Error loading config file: ${error}`);
+        logger.error(`❌ Error writing report: ${error}`);
+    }
+}
+
+// Merge config file, environment variables and CLI arguments, then validate required parameters
+// Whether a command needs local_dir: as an existing directory, set but possibly not created yet, or not at all
+type LocalDirRequirement = 'existing' | 'required' | 'none';
+
+async function buildConfig(options: CLIConfig, localDirRequirement: LocalDirRequirement = 'existing'): Promise<FtpDeployConfig> {
+    const config = await loadConfigFile(options);
+
+    // Override config file values with CLI arguments
+    let finalConfig: FtpDeployConfig = {
+        ...config,
+        ...(options.host && { host: options.host }),
+        ...(options.user && { user: options.user }),
+        ...(options.password && { password: options.password }),
+        ...(options.port && { port: options.port }),
+        ...(options.secure !== undefined && { secure: options.secure }),
+        ...(options.protocol && { protocol: options.protocol }),
+        ...(options.privateKey && { private_key: path.resolve(options.privateKey) }),
+        ...(options.passphrase && { passphrase: options.passphrase }),
+        ...(options.agent && { agent: options.agent }),
+        ...(options.localDir && { local_dir: path.resolve(options.localDir) }),
+        ...(options.remoteDir && { remote_dir: options.remoteDir }),
+        // Directories given on the command line deploy that one pair instead of the configured mappings
+        ...((options.localDir || options.remoteDir) && { mappings: undefined }),
+        ...(options.clean !== undefined && { clean_remote_files: options.clean }),
+        ...(options.clearDestination !== undefined && { clear_destination: options.clearDestination }),
+        ...(options.dryRun !== undefined && { dry_run: options.dryRun }),
+        ...(options.preserve && { preserve: options.preserve.split(',').map((p: string) => p.trim()) }),
+        ...(options.include && { include: options.include.split(',').map((p: string) => p.trim()) }),
+        ...(options.exclude && { exclude: options.exclude.split(',').map((p: string) => p.trim()) }),
+        ...(options.permissions && {
+            permissions: Object.fromEntries(options.permissions.split(',')
+                .map((rule: string) => rule.split('=').map((p: string) => p.trim()))
+                .filter(([pattern, mode]: string[]) => pattern && mode))
+        }),
+        ...(options.uploadPhases !== undefined && {
+            upload_phases: options.uploadPhases.split(';')
+                .map((phase: string) => phase.split(',').map((p: string) => p.trim()).filter(Boolean))
+                .filter((phase: string[]) => phase.length > 0)
+        }),
+        ...(options.reconnect !== undefined && { reconnect: options.reconnect }),
+        ...(options.maxRetries && { max_retries: options.maxRetries }),
+        ...(options.retryDelay && { retry_delay: options.retryDelay }),
+        ...(options.maxRetryDelay !== undefined && { max_retry_delay: options.maxRetryDelay }),
+        ...(options.maxErrors !== undefined && { max_errors: options.maxErrors }),
+        ...(options.atomic && { atomic: options.atomic }),
+        ...(options.keepReleases !== undefined && { keep_releases: options.keepReleases }),
+        ...(options.concurrency && { concurrency: options.concurrency }),
+        ...(options.maxBandwidth && { max_bandwidth: options.maxBandwidth }),
+        ...(options.maxFileSize && { max_file_size: options.maxFileSize }),
+        ...(options.skipOversized && { oversized_files: 'skip' as const }),
+        ...(options.transferTimeout !== undefined && { transfer_timeout: options.transferTimeout }),
+        ...(options.verbose && { verbose: true }),
+        ...(options.verify && { verify: true }),
+        ...(options.verifyChecksum && { verify_checksum: options.verifyChecksum }),
+        ...(options.hashAlgorithm && { hash_algorithm: options.hashAlgorithm }),
+        ...(options.hashCache === false && { hash_cache: false as const }),
+        ...(options.watchDebounce !== undefined && { watch_debounce: options.watchDebounce }),
+        ...(options.checkpointInterval !== undefined && { checkpoint_interval: options.checkpointInterval }),
+        ...(options.lockTimeout !== undefined && { lock_timeout: options.lockTimeout }),
+        ...(options.waitForLock !== undefined && { wait_for_lock: options.waitForLock }),
+        ...(options.forceUnlock && { force_unlock: true }),
+        ...(options.healthCheck && {
+            hooks: { ...config.hooks, after: [...(config.hooks?.after || []), { health_check: options.healthCheck }] }
+        }),
+        ...((options.maintenance || options.maintenancePath) && {
+            maintenance: {
+                ...config.maintenance,
+                ...(options.maintenance && { file: path.resolve(options.maintenance) }),
+                ...(options.maintenancePath && { remote_path: options.maintenancePath })
+            } as MaintenanceConfig
+        }),
+        logger,
+        secureOptions: {
+            rejectUnauthorized: options.rejectUnauthorized,
+            ...config.secureOptions
+        }
+    } as FtpDeployConfig;
+    // Credentials still missing come from .netrc
+    finalConfig = applyNetrc(finalConfig);
+
+    // Validate required parameters
+    if (!finalConfig.host) {
+        logger.error('❌ Error: --host is required');
+        process.exit(1);
+    }
+    const transportConfig = normalizeTransportOptions(finalConfig);
+    if (transportConfig.protocol && !['ftp', 'ftps', 'sftp'].includes(transportConfig.protocol)) {
+        logger.error(`❌ Error: Unsupported protocol: ${transportConfig.protocol}`);
+        process.exit(1);
+    }
+    if (!transportConfig.user) {
+        logger.error('❌ Error: --user is required (or DEPLOY_FTP_USER, or a .netrc entry)');
+        process.exit(1);
+    }
+    // SFTP can authenticate with a private key or SSH agent instead of a password
+    const hasSshAuth = transportConfig.protocol === 'sftp' && (transportConfig.private_key || transportConfig.agent);
+    if (!transportConfig.password && !hasSshAuth) {
+        logger.error('❌ Error: --password is required (or DEPLOY_FTP_PASSWORD, or a .netrc entry)');
+        process.exit(1);
+    }
+    const mappings = finalConfig.mappings && finalConfig.mappings.length > 0 ? finalConfig.mappings : undefined;
+    if (localDirRequirement !== 'none' && !mappings && !finalConfig.local_dir) {
+        logger.error('❌ Error: --local-dir is required');
+        process.exit(1);
+    }
+    if (!mappings && !finalConfig.remote_dir) {
+        logger.error('❌ Error: --remote-dir is required');
+        process.exit(1);
+    }
+
+    if (finalConfig.verify_checksum && !['none', 'server', 'download', 'auto'].includes(finalConfig.verify_checksum)) {
+        logger.error('❌ Error: --verify-checksum must be one of: none, server, download, auto');
         process.exit(1);
     }
+
+    if (finalConfig.hash_algorithm && !HASH_ALGORITHMS.includes(finalConfig.hash_algorithm)) {
+        logger.error(`❌ Error: --hash-algorithm must be one of: ${HASH_ALGORITHMS.join(', ')}`);
+        process.exit(1);
+    }
+
+    if (options.reportFormat && !REPORT_FORMATS.includes(options.reportFormat)) {
+        logger.error(`❌ Error: --report-format must be one of: ${REPORT_FORMATS.join(', ')}`);
+        process.exit(1);
+    }
+
+    if (finalConfig.maintenance && !fs.existsSync(finalConfig.maintenance.file || '')) {
+        logger.error(`❌ Error: Maintenance file does not exist: ${finalConfig.maintenance.file}`);
+        process.exit(1);
+    }
+
+    // Check if the local directories exist
+    const localDirs = mappings ? mappings.map((mapping) => mapping.local_dir) : [finalConfig.local_dir as string];
+    const missingDir = localDirs.find((localDir) => !fs.existsSync(localDir));
+    if (localDirRequirement === 'existing' && missingDir !== undefined) {
+        logger.error(`❌ Error: Local directory does not exist: ${missingDir}`);
+        process.exit(1);
+    }
+
+    return finalConfig;
 }
 
 program
     .name('deploy-ftp')
     .description('Fast and efficient FTP deployment tool with hash-based change detection')
     .version('1.0.0')
-    .option('-h, --host <host>', 'FTP server hostname')
+    .option('-h, --host <host>', 'Server hostname or URL (e.g. sftp://user@example.com:22)')
     .option('-u, --user <user>', 'FTP username')
     .option('-p, --password <password>', 'FTP password')
     .option('--port <port>', 'FTP port (default: 21)', parseInt)
-    .option('-s, --secure', 'Use FTPS/TLS (default: false)', false)
+    .option('-s, --secure', 'Use FTPS/TLS (default: false)')
+    .option('--protocol <protocol>', 'Transfer protocol: ftp, ftps or sftp (default: ftp)')
+    .option('--private-key <path>', 'SSH private key file for SFTP')
+    .option('--passphrase <passphrase>', 'Passphrase of the SSH private key')
+    .option('--agent [socket]', 'Authenticate SFTP through the SSH agent (default socket: $SSH_AUTH_SOCK)')
     .option('--local-dir <path>', 'Local directory to deploy')
     .option('--remote-dir <path>', 'Remote directory path')
-    .option('--clean', 'Remove orphaned files from remote (default: false)', false)
-    .option('--clear-destination', 'Clear entire remote directory before deployment (default: false)', false)
-    .option('--dry-run', 'Preview changes without actually deploying (default: false)', false)
-    .option('--preserve <paths>', 'Comma-separated paths to preserve from deletion', '')
-    .option('--reconnect', 'Enable automatic reconnection on connection errors (default: true)', true)
+    .option('--clean', 'Remove orphaned files from remote (default: false)')
+    .option('--clear-destination', 'Clear entire remote directory before deployment (default: false)')
+    .option('--dry-run', 'Preview changes without actually deploying (default: false)')
+    .option('--preserve <paths>', 'Comma-separated paths or globs to preserve from deletion', '')
+    .option('--include <globs>', 'Comma-separated globs of local files to deploy (default: all)')
+    .option('--exclude <globs>', 'Comma-separated gitignore-style globs to leave out of the deploy')
+    .option('--permissions <rules>', 'Comma-separated glob=mode rules applied with SITE CHMOD, a glob ending in / sets directories, e.g. "**/*.php=644,*/=755"')
+    .option('--upload-phases <phases>', 'Semicolon-separated phases of comma-separated globs, uploaded in order after all other files; "" uploads everything at once (default: "*.html,*.htm,*.php")')
+    .option('--reconnect', 'Enable automatic reconnection on connection errors (default: true)')
     .option('--max-retries <number>', 'Maximum number of retry attempts (default: 3)', parseInt)
-    .option('--retry-delay <ms>', 'Delay between retry attempts in milliseconds (default: 1000)', parseInt)
-    .option('-c, --config <file>', 'Load configuration from JSON file')
+    .option('--retry-delay <ms>', 'Delay before the first retry in milliseconds, doubled for every further attempt (default: 1000)', parseInt)
+    .option('--max-retry-delay <ms>', 'Longest delay between retry attempts in milliseconds (default: 30000)', parseInt)
+    .option('--max-errors <number>', 'Abort the deploy once this many files failed, 0 never aborts (default: 0)', parseInt)
+    .option('-c, --config <file>', 'Load configuration from a JSON, JS or TS file (default: deploy-ftp.config.js/.ts, deploy-ftp.json or the "deploy-ftp" key in package.json)')
+    .option('-e, --env <name>', 'Environment of the config file to deploy to (default: $DEPLOY_FTP_ENV)')
     .option('--reject-unauthorized', 'Reject unauthorized SSL certificates (default: true)', true)
+    .option('--atomic', 'Upload into a staging directory and swap it into place (default: false)')
+    .option('--concurrency <number>', 'Number of parallel connections used for uploads and removals (default: 1)', parseInt)
+    .option('--max-bandwidth <rate>', 'Limit uploads to this many bytes per second across all connections, e.g. 500K or 2M', parseSizeOption)
+    .option('--max-file-size <size>', 'Fail the deploy before any change when a local file is larger, e.g. 50M', parseSizeOption)
+    .option('--skip-oversized', 'Leave files over --max-file-size out of the deploy instead of failing (default: false)')
+    .option('--transfer-timeout <ms>', 'Abort and retry a transfer that moved no data for this long, 0 disables (default: 120000)', parseInt)
+    .option('--report <file>', 'Write a machine-readable deploy report to a file')
+    .option('--report-format <format>', 'Report format: json or junit (default: json)', 'json')
+    .option('--keep-releases <number>', 'Number of releases kept for rollback, 0 disables history (default: 5)', parseInt)
+    .option('--verify', 'Check remote files against the hash manifest first and re-upload drifted ones (default: false)')
+    .option('--verify-checksum <mode>', 'Confirm files changed on the server by checksum: none, server (XMD5/XSHA), download or auto (default: none)')
+    .option('--hash-algorithm <algorithm>', 'Hash algorithm of the manifest: md5, sha1 or sha256 (default: the manifest\'s, sha256 for new ones)')
+    .option('--no-hash-cache', 'Rehash every local file instead of reusing hashes of files with unchanged size and mtime')
+    .option('-w, --watch', 'Keep running and deploy changes to the local directory as they happen (default: false)')
+    .option('--watch-debounce <ms>', 'Wait this long after the last change before deploying a batch (default: 500)', parseInt)
+    .option('--checkpoint-interval <ms>', 'Save the hash manifest this often during a deploy so an interrupted one resumes, 0 disables (default: 30000)', parseInt)
+    .option('--maintenance <file>', 'Upload this file while the deploy changes files, e.g. a .maintenance flag or a replacement .htaccess')
+    .option('--maintenance-path <path>', 'Remote path of the maintenance file, relative to the remote directory (default: its file name)')
+    .option('--health-check <url>', 'Request this URL after the deploy and fail with exit code 2 unless it answers 200')
+    .option('--wait-for-lock <ms>', 'Wait up to this long for another deploy to release the remote lock (default: 0, fail at once)', parseInt)
+    .option('--lock-timeout <ms>', 'Treat a remote lock older than this as stale and break it (default: 1800000)', parseInt)
+    .option('--force-unlock', 'Remove the remote lock left by another deploy before starting (default: false)')
+    .option('-q, --quiet', 'Only print errors (default: false)', false)
+    .option('-v, --verbose', 'Print debug output, including the FTP control connection (default: false)', false)
+    .option('--no-emoji', 'Print plain text without emoji')
+    .hook('preAction', (_command, actionCommand) => {
+        logger = createLogger(actionCommand.optsWithGlobals<CLIConfig>());
+    })
     .action(async (options: CLIConfig) => {
         try {
-            let config: Partial<FtpDeployConfig> = {};
+            const finalConfig = await buildConfig(options);
 
-            // Load config file if specified
-            if (options.config) {
-                config = loadConfigFile(options.config);
+            logger.info('🚀 Starting FTP deployment...\n');
+            if (finalConfig.mappings && finalConfig.mappings.length > 0) {
+                finalConfig.mappings.forEach((mapping) => logger.info(`🗂️  Mapping: ${mapping.local_dir} → ${mapping.remote_dir}`));
+            } else {
+                logger.info(`📁 Local: ${finalConfig.local_dir}`);
+                logger.info(`🌐 Remote: ${finalConfig.remote_dir}`);
             }
+            logger.info(`🔌 Protocol: ${normalizeTransportOptions(finalConfig).protocol || 'ftp'}`);
+            logger.info(`🔒 Secure: ${finalConfig.secure ? 'Yes' : 'No'}`);
+            logger.info(`🧹 Clean: ${finalConfig.clean_remote_files ? 'Yes' : 'No'}`);
+            logger.info(`🚨 Clear destination: ${finalConfig.clear_destination ? 'Yes' : 'No'}`);
+            logger.info(`🎭 Atomic: ${finalConfig.atomic ? 'Yes' : 'No'}`);
+            logger.info(`🔍 Dry run: ${finalConfig.dry_run ? 'Yes' : 'No'}\n`);
+
+            const deployer = new FtpDeploy(finalConfig);
+            let stats: DeployStats;
+            if (options.watch) {
+                // Ctrl+C ends the watch after the running batch and its manifest update
+                const controller = new AbortController();
+                process.once('SIGINT', () => controller.abort());
+                process.once('SIGTERM', () => controller.abort());
+                stats = await deployer.watch(controller.signal);
+            } else stats = await deployer.deploy();
+            saveReport(options, stats, options.watch ? 'watch' : 'deploy', finalConfig);
 
-            // Override config file values with CLI arguments
-            const finalConfig: FtpDeployConfig = {
-                ...config,
-                ...(options.host && { host: options.host }),
-                ...(options.user && { user: options.user }),
-                ...(options.password && { password: options.password }),
-                ...(options.port && { port: options.port }),
-                ...(options.secure !== undefined && { secure: options.secure }),
-                ...(options.localDir && { local_dir: path.resolve(options.localDir) }),
-                ...(options.remoteDir && { remote_dir: options.remoteDir }),
-                ...(options.clean !== undefined && { clean_remote_files: options.clean }),
-                ...(options.clearDestination !== undefined && { clear_destination: options.clearDestination }),
-                ...(options.dryRun !== undefined && { dry_run: options.dryRun }),
-                ...(options.preserve && { preserve: options.preserve.split(',').map((p: string) => p.trim()) }),
-                ...(options.reconnect !== undefined && { reconnect: options.reconnect }),
-                ...(options.maxRetries && { max_retries: options.maxRetries }),
-                ...(options.retryDelay && { retry_delay: options.retryDelay }),
-                secureOptions: {
-                    rejectUnauthorized: options.rejectUnauthorized,
-                    ...config.secureOptions
-                }
-            } as FtpDeployConfig;
-
-            // Validate required parameters
-            if (!finalConfig.host) {
-                console.error('❌ Error: --host is required');
+            // Exit with appropriate code
+            if (stats.failures.some((failure) => failure.code === 'HEALTH_CHECK_FAILED')) {
+                logger.error('\n💥 Deployment finished but its health check failed');
+                process.exit(EXIT_HEALTH_CHECK_FAILED);
+            } else if (stats.errors.length > 0) {
+                logger.error(`\n💥 Deployment completed with ${stats.errors.length} errors`);
                 process.exit(1);
+            } else {
+                logger.info('\n✅ Deployment completed successfully');
+                process.exit(0);
             }
-            if (!finalConfig.user) {
-                console.error('❌ Error: --user is required');
+
+        } catch (error) {
+            logger.error(`💥 Fatal error: ${error}`);
+            process.exit(1);
+        }
+    });
+
+program
+    .command('rollback [release-id]')
+    .description('Restore the remote directory to a previous release (default: the one before the latest)')
+    .action(async (releaseId: string | undefined, _options: unknown, command: Command) => {
+        try {
+            const options = command.optsWithGlobals<CLIConfig>();
+            const finalConfig = await buildConfig(options, 'none');
+            const deployer = new FtpDeploy(finalConfig);
+            const stats = await deployer.rollback(releaseId !== undefined ? parseInt(releaseId, 10) : undefined);
+            saveReport(options, stats, 'rollback', finalConfig);
+
+            if (stats.errors.length > 0) {
+                logger.error(`\n💥 Rollback completed with ${stats.errors.length} errors`);
                 process.exit(1);
+            } else {
+                logger.info('\n✅ Rollback completed successfully');
+                process.exit(0);
             }
-            if (!finalConfig.password) {
-                console.error('❌ Error: --password is required');
+        } catch (error) {
+            logger.error(`💥 Fatal error: ${error}`);
+            process.exit(1);
+        }
+    });
+
+program
+    .command('verify')
+    .description('Report remote files that are missing, modified or untracked compared to the hash manifest')
+    .action(async (_options: unknown, command: Command) => {
+        try {
+            const options = command.optsWithGlobals<CLIConfig>();
+            const finalConfig = await buildConfig(options);
+            const deployer = new FtpDeploy(finalConfig);
+            const stats = await deployer.verify();
+            saveReport(options, stats, 'verify', finalConfig);
+
+            const drifted = (stats.drift?.missing.length || 0) + (stats.drift?.modified.length || 0);
+            if (stats.errors.length > 0) {
+                logger.error(`\n💥 Verification completed with ${stats.errors.length} errors`);
                 process.exit(1);
-            }
-            if (!finalConfig.local_dir) {
-                console.error('❌ Error: --local-dir is required');
+            } else if (drifted > 0) {
+                logger.error(`\n⚠️  ${drifted} files drifted from the hash manifest, run a deploy with --verify to repair them`);
                 process.exit(1);
+            } else {
+                logger.info('\n✅ Remote files match the hash manifest');
+                process.exit(0);
             }
-            if (!finalConfig.remote_dir) {
-                console.error('❌ Error: --remote-dir is required');
+        } catch (error) {
+            logger.error(`💥 Fatal error: ${error}`);
+            process.exit(1);
+        }
+    });
+
+program
+    .command('pull')
+    .description('Mirror the remote directory into the local one; --clean deletes local files missing on the server, --dry-run only lists them')
+    .action(async (_options: unknown, command: Command) => {
+        try {
+            const options = command.optsWithGlobals<CLIConfig>();
+            const finalConfig = await buildConfig(options, 'required');
+            const deployer = new FtpDeploy(finalConfig);
+            const stats = await deployer.pull();
+            saveReport(options, stats, 'pull', finalConfig);
+
+            if (stats.errors.length > 0) {
+                logger.error(`\n💥 Pull completed with ${stats.errors.length} errors`);
                 process.exit(1);
+            } else {
+                logger.info('\n✅ Pull completed successfully');
+                process.exit(0);
             }
+        } catch (error) {
+            logger.error(`💥 Fatal error: ${error}`);
+            process.exit(1);
+        }
+    });
+
+program
+    .command('diff')
+    .description('List files added, modified and deleted between the local and the remote directory, in both directions')
+    .option('--content', 'Also print a unified diff of every modified text file (default: false)')
+    .action(async (_options: unknown, command: Command) => {
+        try {
+            const options = command.optsWithGlobals<CLIConfig>();
+            const finalConfig = await buildConfig(options, 'required');
+            const deployer = new FtpDeploy(finalConfig);
+            const stats = await deployer.diff(options.content);
+            saveReport(options, stats, 'diff', finalConfig);
 
-            // Check if local directory exists
-            if (!fs.existsSync(finalConfig.local_dir)) {
-                console.error(`❌ Error: Local directory does not exist: ${finalConfig.local_dir}`);
+            const differences = (stats.diff?.localOnly.length || 0) + (stats.diff?.remoteOnly.length || 0) + (stats.diff?.modified.length || 0);
+            if (stats.errors.length > 0) {
+                logger.error(`\n💥 Diff completed with ${stats.errors.length} errors`);
                 process.exit(1);
+            } else if (differences > 0) {
+                logger.info(`\n⚠️  ${differences} files differ between the local and the remote directory`);
+                process.exit(1);
+            } else {
+                logger.info('\n✅ Local and remote directories are identical');
+                process.exit(0);
             }
+        } catch (error) {
+            logger.error(`💥 Fatal error: ${error}`);
+            process.exit(1);
+        }
+    });
+
+program
+    .command('plan')
+    .description('Analyze a deploy without changing anything and write its uploads and removals to a plan file for apply')
+    .option('-o, --out <file>', 'Plan file to write (default: deploy-plan.json)', 'deploy-plan.json')
+    .action(async (_options: unknown, command: Command) => {
+        try {
+            const options = command.optsWithGlobals<CLIConfig>();
+            const finalConfig = await buildConfig(options);
+            const deployer = new FtpDeploy(finalConfig);
+            const plan = await deployer.plan();
+            writePlan(plan, options.out as string);
 
-            console.log('🚀 Starting FTP deployment...\n');
-            console.log(`📁 Local: ${finalConfig.local_dir}`);
-            console.log(`🌐 Remote: ${finalConfig.remote_dir}`);
-            console.log(`🔒 Secure: ${finalConfig.secure ? 'Yes' : 'No'}`);
-            console.log(`🧹 Clean: ${finalConfig.clean_remote_files ? 'Yes' : 'No'}`);
-            console.log(`🚨 Clear destination: ${finalConfig.clear_destination ? 'Yes' : 'No'}`);
-            console.log(`🔍 Dry run: ${finalConfig.dry_run ? 'Yes' : 'No'}\n`);
+            const uploads = plan.mappings.reduce((sum, mapping) => sum + mapping.uploads.length, 0);
+            const removals = plan.mappings.reduce((sum, mapping) => sum + mapping.removals.length, 0);
+            logger.info(`\n📝 Plan written to ${options.out}: ${uploads} uploads, ${removals} removals`);
+            process.exit(0);
+        } catch (error) {
+            logger.error(`💥 Fatal error: ${error}`);
+            process.exit(1);
+        }
+    });
 
+program
+    .command('apply <plan-file>')
+    .description('Execute a plan file written by plan, refusing it when the remote hash file or a planned local file changed since')
+    .action(async (planFile: string, _options: unknown, command: Command) => {
+        try {
+            const options = command.optsWithGlobals<CLIConfig>();
+            const finalConfig = await buildConfig(options);
             const deployer = new FtpDeploy(finalConfig);
-            const stats = await deployer.deploy();
+            const stats = await deployer.apply(readPlan(planFile));
+            saveReport(options, stats, 'apply', finalConfig);
 
-            // Exit with appropriate code
-            if (stats.errors.length > 0) {
-                console.log(`\n💥 Deployment completed with ${stats.errors.length} errors`);
+            if (stats.failures.some((failure) => failure.code === 'PLAN_STALE')) {
+                logger.error('\n💥 The plan is out of date, nothing was changed');
+                process.exit(1);
+            } else if (stats.failures.some((failure) => failure.code === 'HEALTH_CHECK_FAILED')) {
+                logger.error('\n💥 Plan applied but its health check failed');
+                process.exit(EXIT_HEALTH_CHECK_FAILED);
+            } else if (stats.errors.length > 0) {
+                logger.error(`\n💥 Plan applied with ${stats.errors.length} errors`);
                 process.exit(1);
             } else {
-                console.log('\n✅ Deployment completed successfully');
+                logger.info('\n✅ Plan applied successfully');
                 process.exit(0);
             }
+        } catch (error) {
+            logger.error(`💥 Fatal error: ${error}`);
+            process.exit(1);
+        }
+    });
+
+program
+    .command('releases')
+    .description('List the release history kept on the server')
+    .action(async (_options: unknown, command: Command) => {
+        try {
+            const finalConfig = await buildConfig(command.optsWithGlobals<CLIConfig>(), 'none');
+            const deployer = new FtpDeploy(finalConfig);
+            const releases = await deployer.listReleases();
 
+            if (releases.length === 0) {
+                logger.info('📚 No releases recorded');
+                process.exit(0);
+            }
+            logger.info(`📚 ${releases.length} releases:\n`);
+            releases.forEach((release, index) => {
+                const current = index === releases.length - 1 ? ' (current)' : '';
+                const rollback = release.rollback_of !== undefined ? ` ⏪ rollback to #${release.rollback_of}` : '';
+                logger.info(`   #${release.id}  ${release.timestamp}  📤 ${release.uploaded.length}  🗑️  ${release.removed.length}${rollback}${current}`);
+            });
+            process.exit(0);
         } catch (error) {
-            console.error(`💥 Fatal error: ${error}`);
+            logger.error(`💥 Fatal error: ${error}`);
             process.exit(1);
         }
     });
@@ -0,0 +1,408 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Module, { createRequire } from 'module';
+import type { FtpDeployConfig, VerifyChecksum } from './index';
+import { LOG_LEVELS } from './logger';
+import { HASH_ALGORITHMS } from './manifest';
+import { validateHooks } from './hooks';
+import { validatePermissions } from './permissions';
+import { validateTransforms } from './transforms';
+import { TransportOptions, normalizeTransportOptions } from './transports';
+
+// Config file names looked up in the working directory when --config is not given
+export const CONFIG_FILE_NAMES = ['deploy-ftp.config.js', 'deploy-ftp.config.cjs', 'deploy-ftp.config.ts', 'deploy-ftp.json'];
+
+const VERIFY_CHECKSUMS: VerifyChecksum[] = ['none', 'server', 'download', 'auto'];
+
+// Key holding the configuration inside package.json
+export const PACKAGE_JSON_KEY = 'deploy-ftp';
+
+// Environment variables read as connection settings, overriding the config file
+export const ENV_VARIABLES: Record<string, keyof FtpDeployConfig> = {
+    DEPLOY_FTP_HOST: 'host',
+    DEPLOY_FTP_PORT: 'port',
+    DEPLOY_FTP_USER: 'user',
+    DEPLOY_FTP_PASSWORD: 'password',
+    DEPLOY_FTP_PROTOCOL: 'protocol',
+    DEPLOY_FTP_PRIVATE_KEY: 'private_key',
+    DEPLOY_FTP_PASSPHRASE: 'passphrase'
+};
+
+// A config file: shared defaults plus named environments overriding them
+export type ConfigFile = Partial<FtpDeployConfig> & {
+    environments?: Record<string, Partial<FtpDeployConfig>>;
+};
+
+export interface LoadConfigOptions {
+    file?: string;
+    env?: string;
+    cwd?: string;
+    variables?: NodeJS.ProcessEnv;
+}
+
+export interface LoadedConfig {
+    config: Partial<FtpDeployConfig>;
+    source?: string;
+    env?: string;
+}
+
+// Invalid or unreadable configuration, with one message per offending field
+export class ConfigError extends Error {
+    readonly source: string;
+    readonly errors: string[];
+
+    constructor(source: string, errors: string[]) {
+        super(`Invalid configuration in ${source}:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+        this.name = 'ConfigError';
+        this.source = source;
+        this.errors = errors;
+    }
+}
+
+type FieldType = 'string' | 'number' | 'boolean' | 'string[]' | 'string[][]' | 'object' | 'object[]' | 'function';
+
+interface FieldSchema {
+    type: FieldType[];
+    values?: readonly unknown[];
+    min?: number;
+    max?: number;
+}
+
+// Accepted config keys with their types and allowed values
+const CONFIG_SCHEMA: Record<string, FieldSchema> = {
+    host: { type: ['string'] },
+    port: { type: ['number'], min: 1, max: 65535 },
+    user: { type: ['string'] },
+    password: { type: ['string'] },
+    secure: { type: ['boolean', 'string'], values: [true, false, 'implicit'] },
+    secureOptions: { type: ['object'] },
+    protocol: { type: ['string'], values: ['ftp', 'ftps', 'sftp'] },
+    private_key: { type: ['string'] },
+    passphrase: { type: ['string'] },
+    agent: { type: ['boolean', 'string'] },
+    verbose: { type: ['boolean'] },
+    local_dir: { type: ['string'] },
+    remote_dir: { type: ['string'] },
+    mappings: { type: ['object[]'] },
+    clean_remote_files: { type: ['boolean'] },
+    clear_destination: { type: ['boolean'] },
+    dry_run: { type: ['boolean'] },
+    preserve: { type: ['string[]'] },
+    include: { type: ['string[]'] },
+    exclude: { type: ['string[]'] },
+    upload_phases: { type: ['string[][]'] },
+    reconnect: { type: ['boolean'] },
+    max_retries: { type: ['number'], min: 0 },
+    retry_delay: { type: ['number'], min: 0 },
+    max_retry_delay: { type: ['number'], min: 0 },
+    max_errors: { type: ['number'], min: 0 },
+    atomic: { type: ['boolean'] },
+    post_deploy_check: { type: ['function'] },
+    keep_releases: { type: ['number'], min: 0 },
+    concurrency: { type: ['number'], min: 1 },
+    max_bandwidth: { type: ['number'], min: 1 },
+    max_file_size: { type: ['number'], min: 1 },
+    oversized_files: { type: ['string'], values: ['fail', 'skip'] },
+    transfer_timeout: { type: ['number'], min: 0 },
+    logger: { type: ['object'] },
+    log_level: { type: ['string'], values: LOG_LEVELS },
+    emoji: { type: ['boolean'] },
+    verify: { type: ['boolean'] },
+    verify_checksum: { type: ['string'], values: VERIFY_CHECKSUMS },
+    hash_algorithm: { type: ['string'], values: HASH_ALGORITHMS },
+    // A cache file path, or false to disable the cache; checked in validateConfig
+    hash_cache: { type: ['string', 'boolean'] },
+    watch_debounce: { type: ['number'], min: 0 },
+    checkpoint_interval: { type: ['number'], min: 0 },
+    lock_timeout: { type: ['number'], min: 0 },
+    wait_for_lock: { type: ['number'], min: 0 },
+    force_unlock: { type: ['boolean'] },
+    maintenance: { type: ['object'] },
+    hooks: { type: ['object'] },
+    permissions: { type: ['object'] },
+    transforms: { type: ['object[]'] }
+};
+
+// Check a value against one of the schema types
+function hasType(value: unknown, type: FieldType): boolean {
+    if (type === 'string[]') return Array.isArray(value) && value.every((item) => typeof item === 'string');
+    if (type === 'string[][]') return Array.isArray(value) && value.every((item) => hasType(item, 'string[]'));
+    if (type === 'number') return typeof value === 'number' && !isNaN(value);
+    if (type === 'object') return typeof value === 'object' && value !== null && !Array.isArray(value);
+    if (type === 'object[]') return Array.isArray(value) && value.every((item) => hasType(item, 'object'));
+    return typeof value === type;
+}
+
+// Describe a value for an error message
+function describe(value: unknown): string {
+    if (Array.isArray(value)) return 'an array';
+    if (value === null) return 'null';
+    if (typeof value === 'function') return 'a function';
+    if (typeof value === 'object') return 'an object';
+    return JSON.stringify(value);
+}
+
+// Keys a mapping may set, the rest of its options come from the top level
+const MAPPING_KEYS = ['local_dir', 'remote_dir', 'include', 'exclude', 'preserve', 'clean_remote_files', 'permissions', 'transforms'];
+
+// Check every mapping's fields and that no two mappings share a remote_dir
+function validateMappings(mappings: Record<string, unknown>[], prefix: string): string[] {
+    const errors: string[] = [];
+    const remoteDirs = new Map<string, number>();
+    mappings.forEach((mapping, index) => {
+        const field = `${prefix}[${index}]`;
+        for (const key of ['local_dir', 'remote_dir']) {
+            if (mapping[key] === undefined) errors.push(`${field}.${key}: required`);
+        }
+        for (const key of Object.keys(mapping)) {
+            if (!MAPPING_KEYS.includes(key)) errors.push(`${field}.${key}: not allowed in a mapping, expected one of ${MAPPING_KEYS.join(', ')}`);
+        }
+        errors.push(...validateConfig(Object.fromEntries(Object.entries(mapping).filter(([key]) => MAPPING_KEYS.includes(key))), `${field}.`));
+        if (typeof mapping.remote_dir !== 'string') return;
+        const remoteDir = mapping.remote_dir.replace(/\/+$/, '') || '/';
+        const other = remoteDirs.get(remoteDir);
+        if (other !== undefined) errors.push(`${field}.remote_dir: ${remoteDir} is already the remote_dir of ${prefix}[${other}]`);
+        else remoteDirs.set(remoteDir, index);
+    });
+    return errors;
+}
+
+// Validate config fields against the schema, returning one message per invalid field
+export function validateConfig(config: Record<string, unknown>, prefix = ''): string[] {
+    const errors: string[] = [];
+    for (const [key, value] of Object.entries(config)) {
+        const field = `${prefix}${key}`;
+        const schema = CONFIG_SCHEMA[key];
+        if (!schema) {
+            errors.push(`${field}: unknown option`);
+            continue;
+        }
+        if (value === undefined) continue;
+        if (!schema.type.some((type) => hasType(value, type))) {
+            errors.push(`${field}: expected ${schema.type.join(' or ')}, got ${describe(value)}`);
+        } else if (schema.values && typeof value === 'string' && !schema.values.includes(value)) {
+            errors.push(`${field}: expected one of ${schema.values.filter((v) => typeof v === 'string').join(', ')}, got ${describe(value)}`);
+        } else if (typeof value === 'number' && ((schema.min !== undefined && value < schema.min) || (schema.max !== undefined && value > schema.max))) {
+            const range = schema.max !== undefined ? `between ${schema.min} and ${schema.max}` : `at least ${schema.min}`;
+            errors.push(`${field}: expected a number ${range}, got ${value}`);
+        } else if (key === 'hash_cache' && value === true) {
+            errors.push(`${field}: expected a file path or false, got true`);
+        } else if (key === 'hooks') {
+            errors.push(...validateHooks(value as Record<string, unknown>, field));
+        } else if (key === 'permissions') {
+            errors.push(...validatePermissions(value as Record<string, unknown>, field));
+        } else if (key === 'transforms') {
+            errors.push(...validateTransforms(value as Record<string, unknown>[], field));
+        } else if (key === 'mappings') {
+            errors.push(...validateMappings(value as Record<string, unknown>[], field));
+        }
+    }
+    return errors;
+}
+
+// Replace ${VAR} references in every string value, collecting unset variables as errors
+export function interpolateEnv<T>(value: T, variables: NodeJS.ProcessEnv, errors: string[], field = ''): T {
+    if (typeof value === 'string') {
+        return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (match, name: string) => {
+            const resolved = variables[name];
+            if (resolved === undefined) {
+                errors.push(`${field}: environment variable ${name} is not set`);
+                return match;
+            }
+            return resolved;
+        }) as unknown as T;
+    }
+    if (Array.isArray(value)) {
+        return value.map((item, index) => interpolateEnv(item, variables, errors, `${field}[${index}]`)) as unknown as T;
+    }
+    // Only plain objects are walked, so instances like a custom logger keep their prototype
+    if (typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype) {
+        const result: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            result[key] = interpolateEnv(item, variables, errors, field ? `${field}.${key}` : key);
+        }
+        return result as T;
+    }
+    return value;
+}
+
+// Read connection settings from DEPLOY_FTP_* environment variables
+export function readEnvConfig(variables: NodeJS.ProcessEnv, errors: string[]): Partial<FtpDeployConfig> {
+    const config: Record<string, unknown> = {};
+    for (const [name, key] of Object.entries(ENV_VARIABLES)) {
+        const value = variables[name];
+        if (value === undefined || value === '') continue;
+        if (key === 'port') {
+            const port = Number(value);
+            if (!Number.isInteger(port)) errors.push(`${name}: expected a port number, got ${JSON.stringify(value)}`);
+            else config.port = port;
+        } else {
+            config[key] = value;
+        }
+    }
+    return config as Partial<FtpDeployConfig>;
+}
+
+// Look up the login and password for a host in a .netrc file (default: $NETRC or ~/.netrc)
+export function readNetrc(host: string, user?: string, file?: string): { login?: string; password?: string } | undefined {
+    const netrcFile = file || process.env.NETRC || path.join(os.homedir(), '.netrc');
+    if (!fs.existsSync(netrcFile)) return undefined;
+    const tokens = fs.readFileSync(netrcFile, 'utf8')
+        // Macro definitions run until the next blank line and hold no credentials
+        .replace(/^\s*macdef\b[^\n]*\n(?:[^\n]*\S[^\n]*\n)*/gm, '')
+        .split(/\s+/)
+        .filter((token) => token !== '');
+    const entries: { machine?: string; login?: string; password?: string }[] = [];
+    let entry: { machine?: string; login?: string; password?: string } | undefined;
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token === 'machine') entries.push(entry = { machine: tokens[++i] });
+        else if (token === 'default') entries.push(entry = {});
+        else if (token === 'login' && entry) entry.login = tokens[++i];
+        else if (token === 'password' && entry) entry.password = tokens[++i];
+        else if (token === 'account' && entry) i++;
+    }
+    // An entry for the host wins over `default`; with a known user the login has to match
+    const candidates = entries.filter((candidate) => !user || !candidate.login || candidate.login === user);
+    return candidates.find((candidate) => candidate.machine === host) ||
+        candidates.find((candidate) => candidate.machine === undefined);
+}
+
+// Fill in a missing user or password from .netrc
+export function applyNetrc<T extends TransportOptions>(config: T, file?: string): T {
+    const { host, user, password } = normalizeTransportOptions(config);
+    if (!host || (user && password)) return config;
+    const credentials = readNetrc(host, user, file);
+    if (!credentials) return config;
+    return {
+        ...config,
+        ...(!user && credentials.login && { user: credentials.login }),
+        ...(!password && credentials.password && { password: credentials.password })
+    };
+}
+
+// Check if a value is a plain object whose fields can be read
+function isObject(value: unknown): value is Record<string, unknown> {
+    return hasType(value, 'object');
+}
+
+// The part of the typescript package used to compile a config file
+interface TypeScriptCompiler {
+    transpileModule(input: string, options: { fileName: string; compilerOptions: Record<string, unknown> }): { outputText: string };
+    ModuleKind: { CommonJS: number };
+    ScriptTarget: { ES2020: number };
+}
+
+function isTypeScriptCompiler(value: unknown): value is TypeScriptCompiler {
+    return isObject(value) && typeof value.transpileModule === 'function' && isObject(value.ModuleKind) && isObject(value.ScriptTarget);
+}
+
+// Compile a TypeScript config with the project's own typescript package
+function requireTypeScript(file: string): unknown {
+    let ts: unknown;
+    try {
+        ts = createRequire(file)('typescript');
+    } catch {
+        throw new ConfigError(file, ['loading a .ts config file requires the "typescript" package in your project']);
+    }
+    if (!isTypeScriptCompiler(ts)) {
+        throw new ConfigError(file, ['the "typescript" package of your project does not provide transpileModule']);
+    }
+    const { outputText } = ts.transpileModule(fs.readFileSync(file, 'utf8'), {
+        fileName: file,
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true }
+    });
+    const compiled = new Module(file) as Module & { _compile(code: string, filename: string): void };
+    compiled.filename = file;
+    compiled.paths = (Module as unknown as { _nodeModulePaths(dir: string): string[] })._nodeModulePaths(path.dirname(file));
+    compiled._compile(outputText, file);
+    return compiled.exports;
+}
+
+// Read a config file of any supported kind: JSON, package.json, JavaScript or TypeScript
+async function readConfigFile(file: string): Promise<unknown> {
+    const extension = path.extname(file);
+    if (extension === '.js' || extension === '.cjs' || extension === '.ts') {
+        let exported: unknown;
+        try {
+            exported = extension === '.ts' ? requireTypeScript(file) : require(file);
+        } catch (error) {
+            if (error instanceof ConfigError) throw error;
+            throw new ConfigError(file, [`failed to load: ${error instanceof Error ? error.message : error}`]);
+        }
+        if (isObject(exported) && exported.__esModule && 'default' in exported) exported = exported.default;
+        // A config module may export a (possibly async) function building the config
+        return typeof exported === 'function' ? await exported() : exported;
+    }
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        throw new ConfigError(file, [`failed to parse: ${error instanceof Error ? error.message : error}`]);
+    }
+    if (path.basename(file) !== 'package.json') return parsed;
+    return isObject(parsed) ? parsed[PACKAGE_JSON_KEY] : undefined;
+}
+
+// Find a config file in the directory: a dedicated file first, then the package.json key
+function findConfigFile(cwd: string): string | undefined {
+    const found = CONFIG_FILE_NAMES.map((name) => path.join(cwd, name)).find((file) => fs.existsSync(file));
+    if (found) return found;
+    const packageJson = path.join(cwd, 'package.json');
+    if (!fs.existsSync(packageJson)) return undefined;
+    try {
+        return JSON.parse(fs.readFileSync(packageJson, 'utf8'))[PACKAGE_JSON_KEY] ? packageJson : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+// Load the config file, select an environment, interpolate ${VAR} references and apply DEPLOY_FTP_* variables
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<LoadedConfig> {
+    const cwd = options.cwd || process.cwd();
+    const variables = options.variables || process.env;
+    const source = options.file ? path.resolve(cwd, options.file) : findConfigFile(cwd);
+    if (options.file && !fs.existsSync(source as string)) {
+        throw new ConfigError(options.file, ['configuration file not found']);
+    }
+
+    const file = source ? (await readConfigFile(source)) || {} : {};
+    const label = source ? path.relative(cwd, source) || source : 'environment';
+    if (!isObject(file)) {
+        throw new ConfigError(label, [`expected an object, got ${describe(file)}`]);
+    }
+
+    // ${VAR} references are resolved before validation, so the values checked are the ones a deploy uses.
+    // Unset variables are only errors in the defaults and the selected environment
+    const { environments, ...rawDefaults } = file;
+    const errors: string[] = [];
+    const defaults = interpolateEnv(rawDefaults, variables, errors);
+    errors.push(...validateConfig(defaults));
+    const available: Record<string, Record<string, unknown>> = {};
+    if (environments !== undefined) {
+        if (!isObject(environments)) {
+            errors.push(`environments: expected object, got ${describe(environments)}`);
+        } else {
+            for (const [name, environment] of Object.entries(environments)) {
+                if (!isObject(environment)) errors.push(`environments.${name}: expected object, got ${describe(environment)}`);
+                else {
+                    available[name] = interpolateEnv(environment, variables, name === options.env ? errors : [], `environments.${name}`);
+                    errors.push(...validateConfig(available[name], `environments.${name}.`));
+                }
+            }
+        }
+    }
+    if (options.env && !available[options.env]) {
+        const names = Object.keys(available);
+        errors.push(`environments.${options.env}: not defined${names.length ? ` (available: ${names.join(', ')})` : ''}`);
+    }
+    const envConfig = readEnvConfig(variables, errors);
+    if (errors.length > 0) throw new ConfigError(label, errors);
+
+    const selected = options.env ? available[options.env] : undefined;
+    // Every field was checked against the schema above
+    const config = { ...defaults, ...selected } as Partial<FtpDeployConfig>;
+
+    return { config: { ...config, ...envConfig }, source, env: options.env };
+}
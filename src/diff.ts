@@ -0,0 +1,105 @@
+import fs from 'fs';
+
+interface LineEdit {
+    type: ' ' | '-' | '+';
+    line: string;
+}
+
+// Larger files are reported as modified without their content
+export const MAX_DIFF_SIZE = 1024 * 1024;
+
+// Beyond this many inserted and deleted lines a diff is no longer worth reading
+const MAX_EDITS = 2000;
+
+// Treat a file as text when it is small enough and has no NUL byte in its first 8 KB
+export function isTextFile(filePath: string): boolean {
+    const stat = fs.statSync(filePath);
+    if (stat.size > MAX_DIFF_SIZE) return false;
+    const fd = fs.openSync(filePath, 'r');
+    try {
+        const buffer = Buffer.alloc(Math.min(stat.size, 8192));
+        const bytes = fs.readSync(fd, buffer, 0, buffer.length, 0);
+        return !buffer.subarray(0, bytes).includes(0);
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+// Split text into lines, without the empty line after a final newline
+function splitLines(text: string): string[] {
+    const lines = text.split(/\r?\n/);
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+}
+
+// Shortest line edit script between two texts (Myers), undefined when it exceeds MAX_EDITS
+function diffLines(a: string[], b: string[]): LineEdit[] | undefined {
+    const max = Math.min(a.length + b.length, MAX_EDITS);
+    // v[k] is the furthest x reached on diagonal k, trace keeps v for k in [-d, d] before round d
+    const v = new Map<number, number>([[1, 0]]);
+    const trace: Map<number, number>[] = [];
+    let found = false;
+    for (let d = 0; d <= max && !found; d++) {
+        trace.push(new Map(v));
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && (v.get(k - 1) as number) < (v.get(k + 1) as number)) ? v.get(k + 1) as number : (v.get(k - 1) as number) + 1;
+            let y = x - k;
+            while (x < a.length && y < b.length && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v.set(k, x);
+            if (x >= a.length && y >= b.length) {
+                found = true;
+                break;
+            }
+        }
+    }
+    if (!found) return undefined;
+    const edits: LineEdit[] = [];
+    let x = a.length;
+    let y = b.length;
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const previous = trace[d];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && (previous.get(k - 1) as number) < (previous.get(k + 1) as number)) ? k + 1 : k - 1;
+        const prevX = d === 0 ? 0 : previous.get(prevK) as number;
+        const prevY = d === 0 ? 0 : prevX - prevK;
+        while (x > prevX && y > prevY) {
+            edits.push({ type: ' ', line: a[--x] });
+            y--;
+        }
+        if (d > 0) {
+            if (x === prevX) edits.push({ type: '+', line: b[--y] });
+            else edits.push({ type: '-', line: a[--x] });
+        }
+    }
+    return edits.reverse();
+}
+
+// Unified diff of two texts, empty when they are equal and undefined when they differ too much
+export function unifiedDiff(oldText: string, newText: string, oldLabel: string, newLabel: string, context = 3): string | undefined {
+    const edits = diffLines(splitLines(oldText), splitLines(newText));
+    if (!edits) return undefined;
+    const changes = edits.map((edit, index) => edit.type === ' ' ? -1 : index).filter((index) => index >= 0);
+    if (changes.length === 0) return '';
+    const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+    let start = 0;
+    while (start < changes.length) {
+        // Changes closer than twice the context share one hunk
+        let end = start;
+        while (end + 1 < changes.length && changes[end + 1] - changes[end] <= 2 * context + 1) end++;
+        const from = Math.max(0, changes[start] - context);
+        const to = Math.min(edits.length, changes[end] + context + 1);
+        const before = edits.slice(0, from);
+        const hunk = edits.slice(from, to);
+        const oldStart = before.filter((edit) => edit.type !== '+').length;
+        const newStart = before.filter((edit) => edit.type !== '-').length;
+        const oldCount = hunk.filter((edit) => edit.type !== '+').length;
+        const newCount = hunk.filter((edit) => edit.type !== '-').length;
+        output.push(`@@ -${oldCount === 0 ? oldStart : oldStart + 1},${oldCount} +${newCount === 0 ? newStart : newStart + 1},${newCount} @@`);
+        hunk.forEach((edit) => output.push(edit.type + edit.line));
+        start = end + 1;
+    }
+    return output.join('\n');
+}
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import { Minimatch } from 'minimatch';
+
+export interface FilterRule {
+    pattern: string;
+    source: string;
+}
+
+export interface FilterResult {
+    matched: boolean;
+    rule?: string;
+}
+
+interface CompiledRule {
+    negated: boolean;
+    dirOnly: boolean;
+    matcher: Minimatch;
+    description: string;
+}
+
+// Compile a gitignore-style pattern: `!` negates, a trailing `/` matches directories only,
+// and patterns without an inner slash match at any depth
+function compileRule(rule: FilterRule): CompiledRule {
+    let pattern = rule.pattern.trim().replace(/\\/g, '/');
+    const negated = pattern.startsWith('!');
+    if (negated) pattern = pattern.slice(1);
+    const dirOnly = pattern.endsWith('/');
+    pattern = pattern.replace(/\/+$/, '');
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\/+/, '');
+    return {
+        negated,
+        dirOnly,
+        matcher: new Minimatch(anchored ? pattern : `**/${pattern}`, { dot: true }),
+        description: `${rule.source} "${rule.pattern}"`
+    };
+}
+
+// Ordered list of gitignore-style rules where the last matching rule wins
+export class PathMatcher {
+    private rules: CompiledRule[];
+
+    constructor(rules: FilterRule[]) {
+        this.rules = rules.filter((rule) => rule.pattern.trim() !== '').map(compileRule);
+    }
+
+    get isEmpty(): boolean {
+        return this.rules.length === 0;
+    }
+
+    get hasNegations(): boolean {
+        return this.rules.some((rule) => rule.negated);
+    }
+
+    // Match a relative path, also matching its parent directories so `dir/` covers everything inside
+    match(relativePath: string, isDirectory = false): FilterResult {
+        const normalized = relativePath.replace(/\\/g, '/').replace(/\/+$/, '');
+        const parts = normalized.split('/');
+        const candidates = parts.map((_, index) => ({
+            path: parts.slice(0, index + 1).join('/'),
+            isDirectory: index < parts.length - 1 || isDirectory
+        }));
+        for (let i = this.rules.length - 1; i >= 0; i--) {
+            const rule = this.rules[i];
+            const hit = candidates.some((candidate) =>
+                (!rule.dirOnly || candidate.isDirectory) && rule.matcher.match(candidate.path));
+            if (hit) return { matched: !rule.negated, rule: rule.description };
+        }
+        return { matched: false };
+    }
+}
+
+export interface FilterDecision {
+    included: boolean;
+    rule?: string;
+}
+
+// Decides which paths take part in a deploy from include and exclude rules
+export class PathFilter {
+    private include: PathMatcher;
+    private exclude: PathMatcher;
+
+    constructor(include: FilterRule[], exclude: FilterRule[]) {
+        this.include = new PathMatcher(include);
+        this.exclude = new PathMatcher(exclude);
+    }
+
+    check(relativePath: string, isDirectory = false): FilterDecision {
+        // Directories are only pruned by exclude rules, include rules apply to files
+        if (!this.include.isEmpty && !isDirectory) {
+            const included = this.include.match(relativePath);
+            if (!included.matched) return { included: false, rule: included.rule || 'not matched by any include rule' };
+        }
+        const excluded = this.exclude.match(relativePath, isDirectory);
+        if (excluded.matched) return { included: false, rule: excluded.rule };
+        return { included: true };
+    }
+
+    // Whether an excluded directory can be skipped without missing re-included files inside it
+    canPrune(relativeDir: string): boolean {
+        return !this.exclude.hasNegations && this.exclude.match(relativeDir, true).matched;
+    }
+}
+
+// Turn plain patterns into rules attributed to a source
+export function toRules(patterns: string[] | undefined, source: string): FilterRule[] {
+    return (patterns || []).map((pattern) => ({ pattern, source }));
+}
+
+// Read a .gitignore-style file, skipping blank lines and comments
+export function loadIgnoreFile(filePath: string, source: string): FilterRule[] {
+    if (!fs.existsSync(filePath)) return [];
+    return fs.readFileSync(filePath, 'utf8')
+        .split(/\r?\n/)
+        .map((line, index) => ({ pattern: line.replace(/\s+$/, ''), source: `${source}:${index + 1}` }))
+        .filter((rule) => rule.pattern !== '' && !rule.pattern.startsWith('#'));
+}
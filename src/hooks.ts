@@ -0,0 +1,153 @@
+import http from 'http';
+import https from 'https';
+import { spawn } from 'child_process';
+
+export type HookStage = 'before' | 'after' | 'onError';
+
+export const HOOK_STAGES: HookStage[] = ['before', 'after', 'onError'];
+
+// Local shell command, run with the deploy stats in DEPLOY_FTP_* variables
+export interface CommandHook {
+    command: string;
+    cwd?: string;
+}
+
+// Raw FTP SITE command, e.g. `CHMOD 755 /public_html/cgi-bin/run.cgi`
+export interface SiteHook {
+    site: string;
+}
+
+// URL requested until it answers with the expected status
+export interface HealthCheckHook {
+    health_check: string;
+    status?: number;
+    retries?: number;
+    retry_delay?: number;
+    timeout?: number;
+}
+
+// URL receiving the deploy stats as a JSON POST
+export interface WebhookHook {
+    webhook: string;
+    method?: 'POST' | 'PUT';
+    headers?: Record<string, string>;
+    timeout?: number;
+}
+
+// A string is shorthand for a command hook
+export type Hook = string | CommandHook | SiteHook | HealthCheckHook | WebhookHook;
+
+export type DeployHooks = Partial<Record<HookStage, Hook[]>>;
+
+export interface HttpResponse {
+    status: number;
+    body: string;
+}
+
+// Default number of health check attempts and the delay between them
+const HEALTH_CHECK_RETRIES = 5;
+const HEALTH_CHECK_DELAY = 2000;
+const HTTP_TIMEOUT = 10000;
+
+// Short description of a hook for log and error messages
+export function describeHook(hook: Hook): string {
+    if (typeof hook === 'string') return `command "${hook}"`;
+    if ('command' in hook) return `command "${hook.command}"`;
+    if ('site' in hook) return `SITE ${hook.site}`;
+    if ('health_check' in hook) return `health check ${hook.health_check}`;
+    return `webhook ${hook.webhook}`;
+}
+
+// Check that every hook has one of the known shapes, returning one message per invalid hook
+export function validateHooks(hooks: Record<string, unknown>, prefix = 'hooks'): string[] {
+    const errors: string[] = [];
+    for (const [stage, list] of Object.entries(hooks)) {
+        if (!HOOK_STAGES.includes(stage as HookStage)) {
+            errors.push(`${prefix}.${stage}: unknown hook stage, expected one of ${HOOK_STAGES.join(', ')}`);
+            continue;
+        }
+        if (!Array.isArray(list)) {
+            errors.push(`${prefix}.${stage}: expected an array of hooks`);
+            continue;
+        }
+        list.forEach((hook, index) => {
+            const valid = typeof hook === 'string' || (typeof hook === 'object' && hook !== null &&
+                ['command', 'site', 'health_check', 'webhook'].some((key) => typeof hook[key] === 'string'));
+            if (!valid) errors.push(`${prefix}.${stage}[${index}]: expected a command string or an object with command, site, health_check or webhook`);
+        });
+    }
+    return errors;
+}
+
+// Run a shell command, passing each line of its output to the log
+export function runCommand(command: string, env: Record<string, string>, log: (line: string) => void, cwd?: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(command, { shell: true, cwd, env: { ...process.env, ...env }, stdio: ['ignore', 'pipe', 'pipe'] });
+        const forward = (data: Buffer) => data.toString().split(/\r?\n/).filter(Boolean).forEach(log);
+        child.stdout.on('data', forward);
+        child.stderr.on('data', forward);
+        child.on('error', reject);
+        child.on('close', (code, signal) => {
+            if (code === 0) resolve();
+            else reject(Object.assign(new Error(`exited with ${signal ? `signal ${signal}` : `code ${code}`}`), { code: 'HOOK_FAILED' }));
+        });
+    });
+}
+
+// Send an HTTP(S) request and collect the response body
+export function httpRequest(url: string, options: { method?: string; headers?: Record<string, string>; body?: string; timeout?: number } = {}): Promise<HttpResponse> {
+    return new Promise((resolve, reject) => {
+        const client = url.startsWith('https:') ? https : http;
+        const request = client.request(url, {
+            method: options.method || 'GET',
+            headers: {
+                ...(options.body !== undefined && { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(options.body) }),
+                ...options.headers
+            },
+            timeout: options.timeout || HTTP_TIMEOUT
+        }, (response) => {
+            let body = '';
+            response.setEncoding('utf8');
+            response.on('data', (chunk) => body += chunk);
+            response.on('end', () => resolve({ status: response.statusCode || 0, body }));
+        });
+        request.on('timeout', () => request.destroy(Object.assign(new Error(`no response within ${options.timeout || HTTP_TIMEOUT}ms`), { code: 'ETIMEDOUT' })));
+        request.on('error', reject);
+        if (options.body !== undefined) request.write(options.body);
+        request.end();
+    });
+}
+
+// Request the health check URL until it answers with the expected status or the retries run out
+export async function checkHealth(hook: HealthCheckHook, log: (message: string) => void): Promise<void> {
+    const expected = hook.status ?? 200;
+    const retries = Math.max(1, hook.retries ?? HEALTH_CHECK_RETRIES);
+    let problem = '';
+    for (let attempt = 1; attempt <= retries; attempt++) {
+        try {
+            const response = await httpRequest(hook.health_check, { timeout: hook.timeout });
+            if (response.status === expected) return;
+            problem = `status ${response.status}, expected ${expected}`;
+        } catch (err) {
+            problem = err instanceof Error ? err.message : String(err);
+        }
+        if (attempt < retries) {
+            log(`⚠️  Health check ${hook.health_check} failed (attempt ${attempt}/${retries}): ${problem}`);
+            await new Promise((resolve) => setTimeout(resolve, hook.retry_delay ?? HEALTH_CHECK_DELAY));
+        }
+    }
+    throw Object.assign(new Error(`${problem} after ${retries} attempts`), { code: 'HEALTH_CHECK_FAILED' });
+}
+
+// Send a JSON payload to a webhook, failing on non-2xx answers
+export async function sendWebhook(hook: WebhookHook, payload: unknown): Promise<void> {
+    const response = await httpRequest(hook.webhook, {
+        method: hook.method || 'POST',
+        headers: hook.headers,
+        body: JSON.stringify(payload),
+        timeout: hook.timeout
+    });
+    if (response.status < 200 || response.status >= 300) {
+        throw Object.assign(new Error(`status ${response.status}`), { code: 'WEBHOOK_FAILED' });
+    }
+}
@@ -1,62 +1,622 @@
 import fs from 'fs';
 import path from 'path';
+import os from 'os';
 import crypto from 'crypto';
-import { Client, AccessOptions } from 'basic-ftp';
+import { EventEmitter } from 'events';
+import { Transport, TransportOptions, RemoteFileInfo, ProgressCallback, createTransport, normalizeTransportOptions, classifyError, ErrorCategory, isNotFoundError } from './transports';
+import { PathFilter, PathMatcher, toRules, loadIgnoreFile } from './filters';
+import { Logger, LogLevel, ConsoleLogger } from './logger';
+import { DirectoryWatcher } from './watcher';
+import { DeployHooks, Hook, HookStage, describeHook, runCommand, checkHealth, sendWebhook } from './hooks';
+import { PermissionMatcher, PermissionRules, getParentDirectories } from './permissions';
+import { isTextFile, unifiedDiff } from './diff';
+import { TransformPipeline, TransformRule } from './transforms';
+import { BandwidthLimiter, formatBytes } from './limits';
+import { Manifest, HashAlgorithm, HashCache, MANIFEST_VERSION, createManifest, parseManifest, isLegacyManifest, hashFile, defaultCacheFile } from './manifest';
+import { DeployPlan, PlannedMapping, PLAN_VERSION, parsePlan } from './plan';
 
-export interface FtpDeployConfig extends AccessOptions {
-    local_dir: string;
-    remote_dir: string;
+export interface FtpDeployConfig extends TransportOptions {
+    // Required unless mappings are given
+    local_dir?: string;
+    remote_dir?: string;
+    mappings?: DeployMapping[];
     clean_remote_files?: boolean;
     clear_destination?: boolean;
     dry_run?: boolean;
     preserve?: string[];
+    include?: string[];
+    exclude?: string[];
+    upload_phases?: string[][];
     reconnect?: boolean;
     max_retries?: number;
     retry_delay?: number;
+    max_retry_delay?: number;
+    max_errors?: number;
+    atomic?: boolean;
+    post_deploy_check?: (stats: DeployStats) => boolean | Promise<boolean>;
+    keep_releases?: number;
+    concurrency?: number;
+    logger?: Logger;
+    log_level?: LogLevel;
+    emoji?: boolean;
+    verify?: boolean;
+    verify_checksum?: VerifyChecksum;
+    hash_algorithm?: HashAlgorithm;
+    hash_cache?: string | false;
+    watch_debounce?: number;
+    checkpoint_interval?: number;
+    lock_timeout?: number;
+    wait_for_lock?: number;
+    force_unlock?: boolean;
+    maintenance?: MaintenanceConfig;
+    hooks?: DeployHooks;
+    permissions?: PermissionRules;
+    transforms?: TransformRule[];
+    max_bandwidth?: number;
+    max_file_size?: number;
+    oversized_files?: OversizedAction;
+    transfer_timeout?: number;
+}
+
+// A local directory deployed to its own remote directory, overriding the top-level filters and clean mode
+export interface DeployMapping {
+    local_dir: string;
+    remote_dir: string;
+    include?: string[];
+    exclude?: string[];
+    preserve?: string[];
+    clean_remote_files?: boolean;
+    permissions?: PermissionRules;
+    transforms?: TransformRule[];
+}
+
+// File put in place on the server while a deploy changes files
+export interface MaintenanceConfig {
+    // Local file to upload, e.g. a .maintenance flag or a replacement .htaccess
+    file: string;
+    // Path relative to remote_dir (default: the name of the local file)
+    remote_path?: string;
+}
+
+// What happens to local files over max_file_size: stop the deploy before anything changes, or leave them out
+export type OversizedAction = 'fail' | 'skip';
+
+// How files touched on the server since the last deploy are confirmed
+export type VerifyChecksum = 'none' | 'server' | 'download' | 'auto';
+
+// 'chmod' is an unchanged file whose permission rule changed, 'download' a file pulled from the server
+export type FileAction = 'upload' | 'remove' | 'unchanged' | 'chmod' | 'download';
+
+export type DeployPhase = 'connect' | 'clear' | 'analysis' | 'verify' | 'upload' | 'download' | 'remove' | 'finalize' | 'swap' | 'rollback' | 'hooks';
+
+export interface DeployError {
+    code: string;
+    category: ErrorCategory;
+    message: string;
+    phase: DeployPhase;
+    path?: string;
+}
+
+export interface FileResult {
+    path: string;
+    action: FileAction;
+    status: 'success' | 'failed' | 'dry_run' | 'skipped';
+    size?: number;
+    hash?: string;
+    mode?: string;
+    duration: number;
+    retries: number;
+    // Why a skipped file was left out, when not because of an earlier failure
+    reason?: string;
+    error?: DeployError;
+}
+
+export interface DeployTotals {
+    files: number;
+    uploaded: number;
+    removed: number;
+    unchanged: number;
+    chmodded: number;
+    downloaded: number;
+    errors: number;
+    retries: number;
+    bytesUploaded: number;
+    bytesDownloaded: number;
+}
+
+export interface DeployTimings {
+    startedAt: string;
+    finishedAt: string;
+    duration: number;
+    phases: Partial<Record<DeployPhase, number>>;
 }
 
 export interface DeployStats {
     uploaded: string[];
     removed: string[];
     unchanged: string[];
+    downloaded: string[];
     errors: string[];
+    files: FileResult[];
+    failures: DeployError[];
+    totals: DeployTotals;
+    timings: DeployTimings;
+    drift?: DriftReport;
+    diff?: DiffReport;
+}
+
+export interface DriftedFile {
+    path: string;
+    reason: 'size' | 'mtime' | 'checksum';
+    detail: string;
+}
+
+// Differences between the hash manifest and the files actually on the server
+export interface DriftReport {
+    checked: number;
+    missing: string[];
+    modified: DriftedFile[];
+    untracked: string[];
+}
+
+// Differences between local_dir and remote_dir; a deploy adds the local-only files, a pull the remote-only ones
+export interface DiffReport {
+    localOnly: string[];
+    remoteOnly: string[];
+    modified: string[];
+    unchanged: number;
+    // Unified diffs of modified text files, remote first, when requested
+    patches?: Record<string, string>;
+}
+
+export interface DeployAnalysis {
+    local_dir: string;
+    remote_dir: string;
+    localFiles: number;
+    remoteFiles?: number;
+    toUpload: string[];
+    toRemove: string[];
+    // Modes to apply without uploading, to files and to directories (with a trailing `/`)
+    toChmod: Record<string, string>;
+    // Local files over max_file_size, with their sizes
+    oversized: Record<string, number>;
+    preserved: Record<string, string>;
+    excludedLocal: Record<string, string>;
+    excludedRemote: Record<string, string>;
 }
 
-export class FtpDeploy {
+export interface FileProgress {
+    path: string;
+    bytes: number;
+    size?: number;
+}
+
+export interface RetryInfo {
+    operation: string;
+    attempt: number;
+    retries: number;
+    // Milliseconds waited before the next attempt
+    delay: number;
+    category: ErrorCategory;
+    error: Error;
+}
+
+// Events emitted during a deploy, with their listener arguments
+export interface DeployEvents {
+    connect: [info: { protocol: string; host?: string }];
+    analysis: [analysis: DeployAnalysis];
+    drift: [report: DriftReport];
+    diff: [report: DiffReport];
+    fileStart: [file: { path: string; action: FileAction; size?: number }];
+    fileProgress: [progress: FileProgress];
+    fileDone: [result: FileResult];
+    remove: [result: FileResult];
+    retry: [info: RetryInfo];
+    error: [error: DeployError];
+    complete: [stats: DeployStats];
+}
+
+export interface ReleaseRecord {
+    id: number;
+    timestamp: string;
+    manifest: Manifest;
+    uploaded: string[];
+    removed: string[];
+    backups: string[];
+    rollback_of?: number;
+}
+
+// Content of the remote lock file held while a deploy writes to remote_dir
+export interface DeployLock {
+    id: string;
+    owner: string;
+    host: string;
+    pid: number;
+    command: string;
+    created_at: string;
+    // Refreshed by long-running watch sessions so they never look stale
+    updated_at?: string;
+}
+
+// A hashed local file, keyed by its relative path
+interface LocalFile {
+    path: string;
+    hash: string;
+    // Hash in the algorithm of the loaded manifest, when switching algorithms
+    manifestHash: string;
+    size: number;
+    mtime: number;
+}
+
+// A pooled connection whose transport is replaced on reconnect
+interface Connection {
+    client: Transport;
+    retries: number;
+}
+
+// Top-level options with the overrides of one mapping
+type MappingConfig = FtpDeployConfig & DeployMapping;
+
+// Per-mapping state of a run, swapped in while the run works on that mapping
+interface MappingState {
+    config: MappingConfig;
+    filter: PathFilter;
+    preserveMatcher: PathMatcher;
+    permissionMatcher: PermissionMatcher;
+    transforms: TransformPipeline;
+    targetDir: string;
+    release?: ReleaseRecord;
+    lock?: DeployLock;
+    excludedLocal: Record<string, string>;
+    excludedRemote: Record<string, string>;
+}
+
+// What a deploy will do to one mapping, computed for every mapping before anything is uploaded
+interface MappingPlan {
+    state: MappingState;
+    manifest: Manifest;
+    localFiles: Record<string, LocalFile>;
+    remoteInfos?: Record<string, RemoteFileInfo>;
+    remoteFiles?: string[];
+    carriedFiles: Set<string>;
+    analysis: DeployAnalysis;
+}
+
+export interface FtpDeploy {
+    on<E extends keyof DeployEvents>(event: E, listener: (...args: DeployEvents[E]) => void): this;
+    once<E extends keyof DeployEvents>(event: E, listener: (...args: DeployEvents[E]) => void): this;
+    off<E extends keyof DeployEvents>(event: E, listener: (...args: DeployEvents[E]) => void): this;
+    emit<E extends keyof DeployEvents>(event: E, ...args: DeployEvents[E]): boolean;
+}
+
+export class FtpDeploy extends EventEmitter {
     private static readonly HASH_FILE_NAME = '.deploy_ftp_hash.json';
+    private static readonly STAGING_SUFFIX = '.staging';
+    private static readonly BACKUP_SUFFIX = '.previous';
+    private static readonly RELEASES_SUFFIX = '.releases';
+    private static readonly RELEASE_FILE_NAME = 'release.json';
+    private static readonly IGNORE_FILE_NAME = '.deployignore';
+    private static readonly LOCK_FILE_NAME = '.deploy_ftp.lock';
+    private static readonly LOCK_POLL_INTERVAL = 5000;
+    private static readonly MAINTENANCE_ORIGINAL_SUFFIX = '.deploy_ftp_original';
+    // Appended to the remote name of an upload in progress that must not replace the live file yet
+    private static readonly UPLOAD_SUFFIX = '.deploy_ftp_upload';
+    // Uploads from this size on are recorded before they start and resume after an interruption
+    private static readonly RESUME_MIN_SIZE = 8 * 1024 * 1024;
 
-    private client: Client;
-    private config: FtpDeployConfig;
+    private connections: Connection[];
+    private config: MappingConfig;
+    private mappings: MappingState[];
+    private mapping: MappingState;
+    private logger: Logger;
+    private targetDir: string;
     private remoteHashFile: string;
     private stats: DeployStats;
+    private release?: ReleaseRecord;
+    private lock?: DeployLock;
+    private maintenanceActive = false;
+    private filter = new PathFilter([], []);
+    private preserveMatcher: PathMatcher;
+    private excludedLocal: Record<string, string> = {};
+    private excludedRemote: Record<string, string> = {};
+    private ensuredDirs = new Map<string, Promise<void>>();
+    // Temporary directory holding the transformed files of the run
+    private transformDir?: string;
+    // Shared by the uploads of every connection, so together they stay under max_bandwidth
+    private limiter?: BandwidthLimiter;
+    private checkpoints: Promise<void> = Promise.resolve();
+    private lastCheckpoint = 0;
     private startTime = 0;
+    private currentPhase?: DeployPhase;
+    private phaseStart = 0;
+    // Files failed so far, compared against max_errors
+    private failedFiles = 0;
+    // Set once the run has to stop, checked between files
+    private abortError?: Error;
+    // SHA-256 of the hash file last read by loadManifest, null when there was none
+    private manifestDigest: string | null = null;
 
     constructor(config: FtpDeployConfig) {
-        this.client = new Client();
-        this.client.ftp.verbose = false;
-        this.config = {
+        super();
+        const options: FtpDeployConfig = {
             clean_remote_files: false,
             clear_destination: false,
             dry_run: false,
             preserve: [],
+            // Entry points go last so they never reference assets that are not uploaded yet
+            upload_phases: [['*.html', '*.htm', '*.php']],
             reconnect: true,
             max_retries: 3,
             retry_delay: 1000,
-            ...config
+            max_retry_delay: 30000,
+            atomic: false,
+            watch_debounce: 500,
+            checkpoint_interval: 30000,
+            lock_timeout: 30 * 60 * 1000,
+            wait_for_lock: 0,
+            force_unlock: false,
+            keep_releases: 5,
+            concurrency: 1,
+            oversized_files: 'fail',
+            transfer_timeout: 120000,
+            ...normalizeTransportOptions(config)
         };
-        this.remoteHashFile = path.posix.join(this.config.remote_dir, FtpDeploy.HASH_FILE_NAME);
+        // Without mappings the top-level directories are the only mapping
+        const mappings = options.mappings && options.mappings.length > 0 ? options.mappings :
+            [{ local_dir: options.local_dir as string, remote_dir: options.remote_dir as string }];
+        this.mappings = mappings.map((mapping, index) => {
+            const mappingConfig: MappingConfig = {
+                ...options,
+                ...mapping,
+                // The maintenance file belongs to the first mapping, normally the document root
+                ...(index > 0 && { maintenance: undefined })
+            };
+            return {
+                config: mappingConfig,
+                filter: new PathFilter([], []),
+                preserveMatcher: new PathMatcher(toRules(mappingConfig.preserve, 'preserve')),
+                permissionMatcher: new PermissionMatcher(mappingConfig.permissions),
+                transforms: new TransformPipeline(mappingConfig.transforms),
+                targetDir: mappingConfig.remote_dir,
+                excludedLocal: {},
+                excludedRemote: {}
+            };
+        });
+        this.mapping = this.mappings[0];
+        this.config = this.mapping.config;
+        this.preserveMatcher = this.mapping.preserveMatcher;
+        this.targetDir = this.mapping.targetDir;
+        this.remoteHashFile = path.posix.join(this.targetDir, FtpDeploy.HASH_FILE_NAME);
+        this.logger = this.config.logger || new ConsoleLogger({
+            level: this.config.log_level || (this.config.verbose ? 'debug' : 'info'),
+            emoji: this.config.emoji
+        });
+        if (this.config.max_bandwidth) this.limiter = new BandwidthLimiter(this.config.max_bandwidth);
+        this.connections = [{ client: this.createClient(), retries: 0 }];
         this.stats = {
             uploaded: [],
             removed: [],
             unchanged: [],
-            errors: []
+            downloaded: [],
+            errors: [],
+            files: [],
+            failures: [],
+            totals: { files: 0, uploaded: 0, removed: 0, unchanged: 0, chmodded: 0, downloaded: 0, errors: 0, retries: 0, bytesUploaded: 0, bytesDownloaded: 0 },
+            timings: { startedAt: '', finishedAt: '', duration: 0, phases: {} }
+        };
+    }
+
+    // Create a transport whose protocol-level logging goes to the debug log
+    private createClient(): Transport {
+        return createTransport(this.config, (message) => this.logger.debug(message), this.limiter);
+    }
+
+    // Save the state of the current mapping and point the run at another one
+    private switchMapping(state: MappingState): void {
+        if (state === this.mapping) return;
+        Object.assign(this.mapping, {
+            config: this.config,
+            filter: this.filter,
+            preserveMatcher: this.preserveMatcher,
+            targetDir: this.targetDir,
+            release: this.release,
+            lock: this.lock,
+            excludedLocal: this.excludedLocal,
+            excludedRemote: this.excludedRemote
+        });
+        this.mapping = state;
+        this.config = state.config;
+        this.filter = state.filter;
+        this.preserveMatcher = state.preserveMatcher;
+        this.release = state.release;
+        this.lock = state.lock;
+        this.excludedLocal = state.excludedLocal;
+        this.excludedRemote = state.excludedRemote;
+        this.setTargetDir(state.targetDir);
+    }
+
+    // Path of a file in stats and events: relative to remote_dir, prefixed with it when deploying several mappings
+    private qualifyPath(relativePath: string): string {
+        return this.mappings.length > 1 ? path.posix.join(this.config.remote_dir, relativePath) : relativePath;
+    }
+
+    // Refuse mappings that would share a hash manifest or be swapped inside one another
+    private checkMappings(): void {
+        const dirs = this.mappings.map((state) => state.config.remote_dir.replace(/\/+$/, '') || '/');
+        const duplicate = dirs.find((dir, index) => dirs.indexOf(dir) !== index);
+        if (duplicate) throw new Error(`Several mappings deploy to ${duplicate}, each mapping needs its own remote_dir`);
+        if (this.config.atomic && dirs.some((dir) => this.getNestedMappings(dir).length > 0)) {
+            throw new Error('Atomic mode cannot deploy mappings whose remote directories are nested in one another');
+        }
+    }
+
+    // Paths, relative to a remote directory, of the other mappings deployed inside it
+    private getNestedMappings(remoteDir: string): string[] {
+        return this.mappings
+            .map((state) => path.posix.relative(remoteDir, state.config.remote_dir))
+            .filter((relative) => relative !== '' && !relative.startsWith('..') && !path.posix.isAbsolute(relative));
+    }
+
+    // Emit an event, skipping 'error' when nobody listens so it never throws
+    private notify<E extends keyof DeployEvents>(event: E, ...args: DeployEvents[E]): void {
+        if (event === 'error' && this.listenerCount('error') === 0) return;
+        this.emit(event, ...args);
+    }
+
+    // Close the running phase timer and start the next one
+    private enterPhase(phase?: DeployPhase): void {
+        const now = Date.now();
+        if (this.currentPhase) {
+            const phases = this.stats.timings.phases;
+            phases[this.currentPhase] = (phases[this.currentPhase] || 0) + now - this.phaseStart;
+        }
+        this.currentPhase = phase;
+        this.phaseStart = now;
+    }
+
+    // Derive a stable error code from transport and system errors
+    private getErrorCode(err: any): string {
+        if (typeof err?.code === 'string') return err.code;
+        if (typeof err?.code === 'number') return `${this.config.protocol === 'sftp' ? 'SFTP' : 'FTP'}_${err.code}`;
+        return 'UNKNOWN';
+    }
+
+    // Record an error both as a message and as structured data
+    private recordError(err: unknown, message: string, filePath?: string, log = true): DeployError {
+        const error: DeployError = {
+            code: this.getErrorCode(err),
+            category: classifyError(err),
+            message: err instanceof Error ? err.message : String(err),
+            phase: this.currentPhase || 'connect',
+            ...(filePath !== undefined && { path: filePath })
+        };
+        if (log) this.logger.error(`❌ ${message}`);
+        this.stats.errors.push(message);
+        this.stats.failures.push(error);
+        this.notify('error', error);
+        if (filePath !== undefined) this.checkAbort(err, error);
+        return error;
+    }
+
+    // Stop the run once max_errors files failed, or at the first auth or TLS error, which every later file would repeat
+    private checkAbort(err: unknown, error: DeployError): void {
+        this.failedFiles++;
+        if (this.abortError) return;
+        const limit = this.config.max_errors;
+        if (error.category === 'auth' || error.category === 'tls') {
+            this.abortError = err instanceof Error ? err : new Error(error.message);
+        } else if (limit && this.failedFiles >= limit) {
+            this.abortError = Object.assign(new Error(`Aborting after ${this.failedFiles} failed files (max_errors: ${limit})`), { code: 'MAX_ERRORS' });
+        }
+    }
+
+    // Fill in totals and timings once a run is over
+    private finalizeStats(): void {
+        this.enterPhase();
+        this.updateTotals();
+    }
+
+    // Compute totals and timings from the results so far
+    private updateTotals(): void {
+        const finishedAt = Date.now();
+        const files = this.stats.files;
+        this.stats.totals = {
+            files: files.length,
+            uploaded: this.stats.uploaded.length,
+            removed: this.stats.removed.length,
+            unchanged: this.stats.unchanged.length,
+            chmodded: files.filter((file) => file.action === 'chmod' && (file.status === 'success' || file.status === 'dry_run')).length,
+            downloaded: this.stats.downloaded.length,
+            errors: this.stats.errors.length,
+            retries: files.reduce((sum, file) => sum + file.retries, 0),
+            bytesUploaded: files
+                .filter((file) => file.action === 'upload' && file.status === 'success')
+                .reduce((sum, file) => sum + (file.size || 0), 0),
+            bytesDownloaded: files
+                .filter((file) => file.action === 'download' && file.status === 'success')
+                .reduce((sum, file) => sum + (file.size || 0), 0)
+        };
+        this.stats.timings = {
+            ...this.stats.timings,
+            startedAt: new Date(this.startTime).toISOString(),
+            finishedAt: new Date(finishedAt).toISOString(),
+            duration: finishedAt - this.startTime
         };
     }
 
-    // Calculate MD5 hash of a file
-    private calcHash(filePath: string): string {
-        const data = fs.readFileSync(filePath);
-        return crypto.createHash('md5').update(data).digest('hex');
+    // Calculate the hash of a file
+    private async calcHash(filePath: string, algorithm: HashAlgorithm): Promise<string> {
+        return (await hashFile(filePath, [algorithm]))[algorithm];
+    }
+
+    // Hash local files in the configured algorithm, and in the manifest's while switching.
+    // Partial lists keep the cache entries of files they do not mention.
+    private async hashLocalFiles(localPaths: string[], manifest: Manifest, complete = true): Promise<Record<string, LocalFile>> {
+        const algorithm = this.config.hash_algorithm || manifest.algorithm;
+        const algorithms = algorithm === manifest.algorithm ? [algorithm] : [algorithm, manifest.algorithm];
+        const cacheFile = this.config.hash_cache === false ? undefined : this.config.hash_cache || defaultCacheFile(this.config.local_dir);
+        const cache = new HashCache(cacheFile);
+        const localFiles: Record<string, LocalFile> = {};
+        for (const localPath of localPaths) {
+            const relativePath = path.relative(this.config.local_dir, localPath).replace(/\\/g, '/');
+            const { hashes, size, mtime } = await cache.hash(relativePath, localPath, algorithms);
+            localFiles[relativePath] = { path: localPath, hash: hashes[algorithm], manifestHash: hashes[manifest.algorithm], size, mtime };
+        }
+        cache.save(complete ? Object.keys(localFiles) : undefined);
+        return localFiles;
+    }
+
+    // Switch the manifest to the configured algorithm, converting entries whose local copy is unchanged
+    private migrateAlgorithm(manifest: Manifest, localFiles: Record<string, LocalFile>): void {
+        const algorithm = this.config.hash_algorithm;
+        if (!algorithm || algorithm === manifest.algorithm) return;
+        this.logger.info(`🔁 Switching the hash manifest from ${manifest.algorithm} to ${algorithm}`);
+        for (const [file, entry] of Object.entries(manifest.files)) {
+            if (!entry.hash) continue;
+            // Without an identical local copy the old hash cannot be converted, so the file counts as changed
+            if (localFiles[file]?.manifestHash === entry.hash) entry.hash = localFiles[file].hash;
+            else delete entry.hash;
+        }
+        manifest.algorithm = algorithm;
+    }
+
+    // Swap local files matching a transform rule for their output, written below a temporary directory,
+    // and add their compressed variants, so the hash diff and the upload both see what the server gets
+    private async transformFiles(localFiles: Record<string, LocalFile>, manifest: Manifest): Promise<void> {
+        const pipeline = this.mapping.transforms;
+        if (pipeline.isEmpty) return;
+        const algorithm = this.config.hash_algorithm || manifest.algorithm;
+        const algorithms = algorithm === manifest.algorithm ? [algorithm] : [algorithm, manifest.algorithm];
+        this.transformDir = this.transformDir || fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-ftp-'));
+        const outputDir = path.join(this.transformDir, String(this.mappings.indexOf(this.mapping)));
+        const generated = new Set<string>();
+        for (const [relativePath, localFile] of Object.entries(localFiles)) {
+            if (generated.has(relativePath) || !pipeline.matches(relativePath)) continue;
+            for (const output of pipeline.apply(relativePath, fs.readFileSync(localFile.path))) {
+                if (output.relativePath !== relativePath && localFiles[output.relativePath]) {
+                    this.logger.warn(`⚠️ ${output.relativePath} is generated by a transform, the local copy is not deployed`);
+                }
+                const outputPath = path.join(outputDir, ...output.relativePath.split('/'));
+                fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+                fs.writeFileSync(outputPath, output.content);
+                const hashes = await hashFile(outputPath, algorithms);
+                localFiles[output.relativePath] = {
+                    path: outputPath,
+                    hash: hashes[algorithm],
+                    manifestHash: hashes[manifest.algorithm],
+                    size: output.content.length,
+                    mtime: localFile.mtime
+                };
+                generated.add(output.relativePath);
+            }
+        }
+    }
+
+    // Delete the transformed files of the run
+    private removeTransformDir(): void {
+        if (!this.transformDir) return;
+        fs.rmSync(this.transformDir, { recursive: true, force: true });
+        this.transformDir = undefined;
     }
 
     // Sleep utility for retry delays
@@ -64,66 +624,334 @@ export class FtpDeploy {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
 
-    // Reconnect to FTP server
-    private async reconnect(): Promise<void> {
-        console.log('🔄 Reconnecting to FTP server...');
+    // Exponential backoff from retry_delay, capped at max_retry_delay, with half of it random
+    // so pooled connections that failed together do not retry in lockstep
+    private getRetryDelay(attempt: number): number {
+        const base = this.config.retry_delay ?? 1000;
+        const delay = Math.min(base * 2 ** (attempt - 1), this.config.max_retry_delay ?? 30000);
+        return Math.round(delay / 2 + Math.random() * delay / 2);
+    }
+
+    // Primary connection used for listings and bookkeeping
+    private get client(): Transport {
+        return this.connections[0].client;
+    }
+
+    // Open additional connections up to the configured concurrency
+    private async openConnections(): Promise<void> {
+        const wanted = Math.max(1, this.config.concurrency || 1);
+        while (this.connections.length < wanted) {
+            const client = this.createClient();
+            try {
+                await client.connect();
+                this.connections.push({ client, retries: 0 });
+            } catch (err) {
+                this.logger.warn(`⚠️  Could not open connection ${this.connections.length + 1}/${wanted}, continuing with ${this.connections.length}: ${err}`);
+                break;
+            }
+        }
+    }
+
+    // Close every connection, keeping a fresh primary for later use
+    private closeConnections(): void {
+        for (const connection of this.connections) connection.client.close();
+        this.connections = [this.connections[0]];
+    }
+
+    // Run a task for every item, spreading the work over the connection pool
+    private async runPool<T>(items: T[], task: (item: T, connection: Connection) => Promise<void>): Promise<void> {
+        if (items.length > 1 && !this.config.dry_run) await this.openConnections();
+        let next = 0;
+        const workers = this.connections.slice(0, Math.max(1, Math.min(items.length, this.connections.length))).map(async (connection) => {
+            while (next < items.length && !this.abortError) await task(items[next++], connection);
+        });
+        await Promise.all(workers);
+        if (this.abortError) throw this.abortError;
+    }
+
+    // Create a remote directory once, after its parents, so pooled workers never race on it
+    private ensureRemoteDir(remoteDir: string, connection: Connection = this.connections[0]): Promise<void> {
+        const parent = path.posix.dirname(remoteDir);
+        if (parent === remoteDir) return Promise.resolve();
+        let pending = this.ensuredDirs.get(remoteDir);
+        if (!pending) {
+            pending = (async () => {
+                await this.ensureRemoteDir(parent, connection);
+                await this.executeWithRetry(async () => {
+                    await connection.client.ensureDir(remoteDir);
+                }, `Create directory ${remoteDir}`, connection);
+            })();
+            // Forget failures so the next file gets another chance
+            pending.catch(() => this.ensuredDirs.delete(remoteDir));
+            this.ensuredDirs.set(remoteDir, pending);
+        }
+        return pending;
+    }
+
+    // Reconnect to remote server
+    private async reconnect(connection: Connection = this.connections[0]): Promise<void> {
+        this.logger.info(`🔄 Reconnecting to ${connection.client.label} server...`);
         try {
-            this.client.close();
-            this.client = new Client();
-            this.client.ftp.verbose = false;
-            await this.client.access(this.config);
-            console.log('✅ Reconnected successfully');
+            connection.client.close();
+            connection.client = this.createClient();
+            await connection.client.connect();
+            this.logger.info('✅ Reconnected successfully');
         } catch (err) {
-            console.error('❌ Reconnection failed:', err);
+            this.logger.error('❌ Reconnection failed:', err);
             throw err;
         }
     }
 
-    // Execute FTP operation with retry logic
+    // Run a transfer on a connection, aborting it when no data moved for transfer_timeout milliseconds.
+    // The connection is closed and the stall reported as ETIMEDOUT, so executeWithRetry reconnects and tries again
+    private async runTransfer(connection: Connection, operationName: string, transfer: (onProgress: ProgressCallback) => Promise<void>, onProgress?: ProgressCallback): Promise<void> {
+        const timeout = this.config.transfer_timeout;
+        if (!timeout) return transfer((bytes) => onProgress?.(bytes));
+        let timer: NodeJS.Timeout | undefined;
+        let stall!: (err: Error) => void;
+        const stalled = new Promise<never>((_resolve, reject) => (stall = reject));
+        const arm = () => {
+            clearTimeout(timer);
+            timer = setTimeout(() => {
+                connection.client.close();
+                stall(Object.assign(new Error(`${operationName} stalled, no data for ${timeout}ms`), { code: 'ETIMEDOUT' }));
+            }, timeout);
+        };
+        arm();
+        const running = transfer((bytes) => {
+            arm();
+            onProgress?.(bytes);
+        });
+        // The losing side of the race fails once its connection is closed, nobody waits for it
+        running.catch(() => undefined);
+        try {
+            await Promise.race([running, stalled]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    // Execute remote operation with retry logic: network errors reconnect and temporary FTP replies (4xx)
+    // try again after a growing delay, anything else (5xx, auth, TLS, local files) fails at once
     private async executeWithRetry<T>(
         operation: () => Promise<T>, 
         operationName: string,
+        connection: Connection = this.connections[0],
         retries: number = this.config.max_retries || 3
     ): Promise<T> {
-        for (let attempt = 1; attempt <= retries; attempt++) {
+        for (let attempt = 1; ; attempt++) {
             try {
                 return await operation();
             } catch (err: any) {
-                const isConnectionError = err.code === 'ECONNRESET' || 
-                                        err.code === 'ENOTFOUND' || 
-                                        err.code === 'ETIMEDOUT' ||
-                                        err.code === 'ECONNREFUSED' ||
-                                        err.message?.includes('connection');
-
-                if (isConnectionError && this.config.reconnect && attempt < retries) {
-                    console.log(`⚠️  ${operationName} failed (attempt ${attempt}/${retries}): ${err.message}`);
-                    console.log(`🔄 Retrying in ${this.config.retry_delay}ms...`);
-                    
-                    await this.sleep(this.config.retry_delay || 1000);
-                    
-                    try {
-                        await this.reconnect();
-                    } catch (reconnectErr) {
-                        if (attempt === retries) throw err;
-                        continue;
-                    }
-                } else {
-                    throw err;
+                const category = classifyError(err);
+                const retryable = (category === 'network' && this.config.reconnect) || category === 'temporary';
+                if (!retryable || attempt >= retries) throw err;
+                connection.retries++;
+                const delay = this.getRetryDelay(attempt);
+                this.notify('retry', { operation: operationName, attempt, retries, delay, category, error: err });
+                this.logger.warn(`⚠️  ${operationName} failed (attempt ${attempt}/${retries}, ${category}): ${err.message}`);
+                this.logger.info(`🔄 Retrying in ${delay}ms...`);
+                await this.sleep(delay);
+                // A temporary reply leaves the connection usable
+                if (category !== 'network') continue;
+                try {
+                    await this.reconnect(connection);
+                } catch (reconnectErr) {
+                    // Rejected credentials or certificates will not get better with more attempts
+                    if (!['network', 'temporary'].includes(classifyError(reconnectErr))) throw reconnectErr;
                 }
             }
         }
-        throw new Error(`Operation failed after ${retries} attempts`);
     }
 
-    // Recursively get all local files
+    // Build the include/exclude filter from config and the .deployignore file in local_dir
+    private createFilter(): PathFilter {
+        const ignoreFile = path.join(this.config.local_dir, FtpDeploy.IGNORE_FILE_NAME);
+        const maintenancePath = this.getMaintenancePath();
+        return new PathFilter(toRules(this.config.include, 'include'), [
+            { pattern: `/${FtpDeploy.IGNORE_FILE_NAME}`, source: 'built-in' },
+            // The maintenance file and the original it replaces are managed around the deploy, not by it
+            ...(maintenancePath ? [
+                { pattern: `/${maintenancePath}`, source: 'maintenance' },
+                { pattern: `/${maintenancePath}${FtpDeploy.MAINTENANCE_ORIGINAL_SUFFIX}`, source: 'maintenance' }
+            ] : []),
+            // Other mappings deployed inside this one keep their own manifest and are never orphans here
+            ...this.getNestedMappings(this.config.remote_dir).map((relative) => ({ pattern: `/${relative}/`, source: 'mapping' })),
+            ...toRules(this.config.exclude, 'exclude'),
+            ...loadIgnoreFile(ignoreFile, FtpDeploy.IGNORE_FILE_NAME)
+        ]);
+    }
+
+    // Path of the maintenance file relative to remote_dir, if maintenance mode is configured
+    private getMaintenancePath(config: MappingConfig = this.config): string | undefined {
+        const maintenance = config.maintenance;
+        if (!maintenance) return undefined;
+        return (maintenance.remote_path || path.basename(maintenance.file)).replace(/\\/g, '/').replace(/^\/+/, '');
+    }
+
+    // Put the maintenance file in place, moving a file already at its path aside
+    private async enableMaintenance(): Promise<void> {
+        const { maintenance, remote_dir } = this.mappings[0].config;
+        const relativePath = this.getMaintenancePath(this.mappings[0].config);
+        if (!maintenance || !relativePath || this.maintenanceActive || this.config.atomic) return;
+        if (this.config.dry_run) {
+            this.logger.info(`🚧 Would enable maintenance mode: ${relativePath}`);
+            return;
+        }
+        const remoteFile = path.posix.join(remote_dir, relativePath);
+        const originalFile = remoteFile + FtpDeploy.MAINTENANCE_ORIGINAL_SUFFIX;
+        this.logger.info(`\n🚧 Enabling maintenance mode: ${relativePath}`);
+        // After an interrupted deploy the original is already aside and the file in place is ours
+        if (!(await this.remoteFileExists(originalFile)) && await this.remoteFileExists(remoteFile)) {
+            await this.executeWithRetry(async () => {
+                await this.client.rename(remoteFile, originalFile);
+            }, `Move ${relativePath} aside`);
+        }
+        // Active from here on, so even a failed upload restores the original
+        this.maintenanceActive = true;
+        await this.ensureRemoteDir(path.posix.dirname(remoteFile));
+        await this.executeWithRetry(async () => {
+            await this.client.uploadFrom(maintenance.file, remoteFile);
+        }, 'Upload maintenance file');
+    }
+
+    // Remove the maintenance file and restore the original it replaced
+    private async disableMaintenance(): Promise<void> {
+        const relativePath = this.getMaintenancePath(this.mappings[0].config);
+        if (!relativePath || !this.maintenanceActive) return;
+        this.maintenanceActive = false;
+        const remoteFile = path.posix.join(this.mappings[0].config.remote_dir, relativePath);
+        const originalFile = remoteFile + FtpDeploy.MAINTENANCE_ORIGINAL_SUFFIX;
+        try {
+            await this.removeIfExists(remoteFile, this.connections[0]);
+            if (await this.remoteFileExists(originalFile)) {
+                await this.executeWithRetry(async () => {
+                    await this.client.rename(originalFile, remoteFile);
+                }, `Restore ${relativePath}`);
+                this.logger.info(`🚧 Maintenance mode disabled, restored original ${relativePath}`);
+            } else this.logger.info(`🚧 Maintenance mode disabled, removed ${relativePath}`);
+        } catch (err) {
+            this.recordError(err, `Failed to disable maintenance mode, ${relativePath} is still in place: ${err}`, relativePath);
+        }
+    }
+
+    // Environment of command hooks, describing the deploy so far
+    private getHookEnv(stage: HookStage): Record<string, string> {
+        const { totals, timings } = this.stats;
+        const { local_dir, remote_dir } = this.mappings[0].config;
+        return {
+            DEPLOY_FTP_HOOK: stage,
+            DEPLOY_FTP_STATUS: stage === 'before' ? 'pending' : totals.errors > 0 ? 'failed' : 'success',
+            DEPLOY_FTP_LOCAL_DIR: local_dir,
+            DEPLOY_FTP_REMOTE_DIR: remote_dir,
+            DEPLOY_FTP_UPLOADED: String(totals.uploaded),
+            DEPLOY_FTP_REMOVED: String(totals.removed),
+            DEPLOY_FTP_UNCHANGED: String(totals.unchanged),
+            DEPLOY_FTP_ERRORS: String(totals.errors),
+            DEPLOY_FTP_BYTES_UPLOADED: String(totals.bytesUploaded),
+            DEPLOY_FTP_DURATION: String(timings.duration),
+            ...(this.stats.errors.length > 0 && { DEPLOY_FTP_ERROR: this.stats.errors[0] })
+        };
+    }
+
+    // Run one hook, throwing when it fails
+    private async runHook(hook: Hook, stage: HookStage): Promise<void> {
+        if (typeof hook === 'string' || 'command' in hook) {
+            const command = typeof hook === 'string' ? hook : hook.command;
+            const cwd = typeof hook === 'string' ? undefined : hook.cwd;
+            await runCommand(command, this.getHookEnv(stage), (line) => this.logger.info(`   ${line}`), cwd);
+        } else if ('site' in hook) {
+            const reply = await this.executeWithRetry(() => this.client.site(hook.site), `SITE ${hook.site}`);
+            this.logger.debug(`   ${reply}`);
+        } else if ('health_check' in hook) {
+            await checkHealth(hook, (message) => this.logger.warn(message));
+        } else {
+            await sendWebhook(hook, {
+                hook: stage,
+                status: this.getHookEnv(stage).DEPLOY_FTP_STATUS,
+                host: this.config.host,
+                remote_dir: this.mappings[0].config.remote_dir,
+                stats: this.stats
+            });
+        }
+    }
+
+    // Run the hooks of a stage in order. A failed before hook aborts the deploy,
+    // a failed after hook fails it and skips the remaining ones.
+    private async runHooks(stage: HookStage): Promise<void> {
+        const hooks = this.config.hooks?.[stage] || [];
+        if (hooks.length === 0) return;
+        if (this.config.dry_run) {
+            this.logger.info(`\n🪝 Would run ${hooks.length} ${stage} hooks`);
+            return;
+        }
+        const previousPhase = this.currentPhase;
+        this.enterPhase('hooks');
+        this.updateTotals();
+        this.logger.info(`\n🪝 Running ${stage} hooks...`);
+        for (const hook of hooks) {
+            this.logger.info(`🪝 ${describeHook(hook)}`);
+            try {
+                await this.runHook(hook, stage);
+            } catch (err: any) {
+                const message = `${stage} hook ${describeHook(hook)} failed: ${err?.message || err}`;
+                if (stage === 'before') throw Object.assign(new Error(message), { code: err?.code || 'HOOK_FAILED' });
+                this.recordError(err, message);
+                if (stage === 'after') break;
+            }
+        }
+        this.enterPhase(previousPhase);
+    }
+
+    // Run the after hooks of a deploy without errors, then the onError hooks if anything failed
+    private async runCompletionHooks(): Promise<void> {
+        if (this.stats.errors.length === 0) await this.runHooks('after');
+        if (this.stats.errors.length > 0) await this.runHooks('onError');
+    }
+
+    // Split local files into the ones within max_file_size and the oversized ones with their sizes
+    private findOversized(localPaths: string[]): { accepted: string[]; oversized: Record<string, number> } {
+        const limit = this.config.max_file_size;
+        if (!limit) return { accepted: localPaths, oversized: {} };
+        const accepted: string[] = [];
+        const oversized: Record<string, number> = {};
+        for (const localPath of localPaths) {
+            const size = fs.statSync(localPath).size;
+            if (size > limit) oversized[path.relative(this.config.local_dir, localPath).replace(/\\/g, '/')] = size;
+            else accepted.push(localPath);
+        }
+        return { accepted, oversized };
+    }
+
+    // Stop on oversized files unless they are to be skipped, listing every one of them
+    private rejectOversized(oversized: Record<string, number>): void {
+        const files = Object.keys(oversized);
+        if (files.length === 0 || this.config.oversized_files === 'skip') return;
+        const limit = formatBytes(this.config.max_file_size as number);
+        this.logger.error(`\n❌ ${files.length} files exceed max_file_size of ${limit}:`);
+        files.forEach((file) => this.logger.error(`   📏 ${this.qualifyPath(file)} (${formatBytes(oversized[file])})`));
+        throw Object.assign(new Error(`${files.length} files exceed max_file_size of ${limit}, exclude them or set oversized_files to "skip"`), { code: 'FILE_TOO_LARGE' });
+    }
+
+    // Recursively get all local files that pass the include/exclude filter
     private getLocalFiles(dir: string): string[] {
         let results: string[] = [];
         const list = fs.readdirSync(dir);
         for (const file of list) {
             const fullPath = path.join(dir, file);
+            const relativePath = path.relative(this.config.local_dir, fullPath).replace(/\\/g, '/');
             const stats = fs.statSync(fullPath);
-            if (stats.isDirectory()) results = results.concat(this.getLocalFiles(fullPath));
-            else results.push(fullPath);
+            if (stats.isDirectory()) {
+                if (this.filter.canPrune(relativePath)) {
+                    this.excludedLocal[relativePath + '/'] = this.filter.check(relativePath, true).rule as string;
+                    continue;
+                }
+                results = results.concat(this.getLocalFiles(fullPath));
+            } else {
+                const decision = this.filter.check(relativePath);
+                if (decision.included) results.push(fullPath);
+                else this.excludedLocal[relativePath] = decision.rule as string;
+            }
         }
         return results;
     }
@@ -131,335 +959,2074 @@ export class FtpDeploy {
     // Check if remote file exists
     private async remoteFileExists(remotePath: string): Promise<boolean> {
         try {
-            await this.client.size(remotePath);
+            await this.executeWithRetry(() => this.client.size(remotePath), `Check ${remotePath}`);
             return true;
         } catch {
             return false;
         }
     }
 
+    // Get the preserve rule protecting a path, if any
+    private getPreserveRule(filePath: string, isDirectory = false): string | undefined {
+        const result = this.preserveMatcher.match(filePath, isDirectory);
+        return result.matched ? result.rule : undefined;
+    }
+
     // Check if a path should be preserved from deletion
-    private shouldPreserve(filePath: string): boolean {
-        if (!this.config.preserve || this.config.preserve.length === 0) return false;
-        
-        const result = this.config.preserve.some((preservePath) => {
-            const normalizedFile = filePath.replace(/\\/g, '/');
-            const normalizedPreserve = preservePath.replace(/\\/g, '/');
-            const cleanPreservePath = normalizedPreserve.endsWith('/') ? 
-                normalizedPreserve.slice(0, -1) : normalizedPreserve;
-            const matches = normalizedFile === cleanPreservePath || 
-                           normalizedFile.startsWith(cleanPreservePath + '/');
-            
-            if (matches && !this.config.dry_run) {
-                console.log(`🛡️  Preserving: ${filePath} (matched by ${preservePath})`);
-            }
-            
-            return matches;
-        });
-        
-        return result;
+    private shouldPreserve(filePath: string, isDirectory = false): boolean {
+        const rule = this.getPreserveRule(filePath, isDirectory);
+        if (rule && !this.config.dry_run) {
+            this.logger.info(`🛡️  Preserving: ${filePath} (matched by ${rule})`);
+        }
+        return rule !== undefined;
     }
 
     // Remove empty directories recursively
     private async removeEmptyDirectories(remoteDir: string, preserveRoot = true): Promise<void> {
         try {
-            const list = await this.client.list(remoteDir);
+            const list = await this.executeWithRetry(() => this.client.list(remoteDir), `List ${remoteDir}`);
             const directories = list.filter((item) => item.isDirectory && item.name !== '.' && item.name !== '..');
             for (const dir of directories) {
                 const dirPath = path.posix.join(remoteDir, dir.name);
-                const relativeDirPath = path.posix.relative(this.config.remote_dir, dirPath);
-                if (this.shouldPreserve(relativeDirPath)) continue;
+                const relativeDirPath = path.posix.relative(this.targetDir, dirPath);
+                if (this.shouldPreserve(relativeDirPath, true) || !this.filter.check(relativeDirPath, true).included) continue;
                 await this.removeEmptyDirectories(dirPath, false);
             }
-            const updatedList = await this.client.list(remoteDir);
-            const hasContent = updatedList.some((item) => item.name !== '.' && item.name !== '..' && item.name !== FtpDeploy.HASH_FILE_NAME);
+            const updatedList = await this.executeWithRetry(() => this.client.list(remoteDir), `List ${remoteDir}`);
+            const hasContent = updatedList.some((item) => item.name !== '.' && item.name !== '..' && item.name !== FtpDeploy.HASH_FILE_NAME && item.name !== FtpDeploy.LOCK_FILE_NAME);
             if (!hasContent && !preserveRoot) {
-                const relativeDirPath = path.posix.relative(this.config.remote_dir, remoteDir);
-                if (!this.shouldPreserve(relativeDirPath)) {
-                    if (this.config.dry_run) console.log(`📁 Would remove empty directory: ${relativeDirPath}`);
+                const relativeDirPath = path.posix.relative(this.targetDir, remoteDir);
+                if (!this.shouldPreserve(relativeDirPath, true)) {
+                    if (this.config.dry_run) this.logger.info(`📁 Would remove empty directory: ${relativeDirPath}`);
                     else {
-                        await this.client.removeDir(remoteDir);
-                        console.log(`📁 Removed empty directory: ${relativeDirPath}`);
+                        await this.executeWithRetry(async () => {
+                            await this.client.removeDir(remoteDir);
+                        }, `Remove directory ${relativeDirPath}`);
+                        this.logger.info(`📁 Removed empty directory: ${relativeDirPath}`);
                     }
                 }
             }
         } catch (err) {
-            console.log(`⚠️ Could not process directory ${remoteDir}: ${err}`);
+            this.logger.warn(`⚠️ Could not process directory ${remoteDir}: ${err}`);
         }
     }
 
-    // Recursively scan all remote files
-    private async getRemoteFiles(remoteDir: string): Promise<string[]> {
-        const files: string[] = [];
+    // Recursively scan all remote files with their listing info, skipping excluded paths when filtering.
+    // A strict scan throws when a directory cannot be listed, for callers that would read a gap as missing files
+    private async getRemoteFileInfos(remoteDir: string, baseDir = this.targetDir, applyFilter = true, strict = false): Promise<Record<string, RemoteFileInfo>> {
+        const files: Record<string, RemoteFileInfo> = {};
         try {
-            const list = await this.client.list(remoteDir);
+            const list = await this.executeWithRetry(() => this.client.list(remoteDir), `List ${remoteDir}`);
             for (const item of list) {
                 if (item.name === '.' || item.name === '..') continue;
                 const itemPath = path.posix.join(remoteDir, item.name);
+                const relativePath = path.posix.relative(baseDir, itemPath);
                 if (item.isDirectory) {
-                    const subFiles = await this.getRemoteFiles(itemPath);
-                    files.push(...subFiles);
-                } else if (item.isFile && item.name !== FtpDeploy.HASH_FILE_NAME) {
-                    const relativePath = path.posix.relative(this.config.remote_dir, itemPath);
-                    files.push(relativePath);
+                    if (applyFilter && this.filter.canPrune(relativePath)) {
+                        this.excludedRemote[relativePath + '/'] = this.filter.check(relativePath, true).rule as string;
+                        continue;
+                    }
+                    Object.assign(files, await this.getRemoteFileInfos(itemPath, baseDir, applyFilter, strict));
+                } else if (item.isFile && item.name !== FtpDeploy.HASH_FILE_NAME && item.name !== FtpDeploy.LOCK_FILE_NAME && !item.name.endsWith(FtpDeploy.UPLOAD_SUFFIX)) {
+                    const decision = this.filter.check(relativePath);
+                    if (!applyFilter || decision.included) files[relativePath] = item;
+                    else this.excludedRemote[relativePath] = decision.rule as string;
                 }
             }
         } catch (err) {
-            console.log(`⚠️ Could not list directory ${remoteDir}: ${err}`);
+            if (strict && !isNotFoundError(err)) throw err;
+            this.logger.warn(`⚠️ Could not list directory ${remoteDir}: ${err}`);
         }
         return files;
     }
 
-    // Clear entire remote destination
-    private async clearDestination(): Promise<void> {
-        const action = this.config.dry_run ? 'Would clear' : 'Clearing';
-        console.log(`\n🧹 CLEAR_DESTINATION enabled - ${action.toLowerCase()} all remote files...`);
-        const remoteFiles = await this.getRemoteFiles(this.config.remote_dir);
-        for (const file of remoteFiles) {
-            try {
+    // Recursively scan all remote files
+    private async getRemoteFiles(remoteDir: string, baseDir = this.targetDir): Promise<string[]> {
+        return Object.keys(await this.getRemoteFileInfos(remoteDir, baseDir));
+    }
+
+    // Check if remote directory exists by looking it up in its parent listing
+    private async remoteDirExists(remoteDir: string): Promise<boolean> {
+        try {
+            const list = await this.executeWithRetry(() => this.client.list(path.posix.dirname(remoteDir)), `List ${path.posix.dirname(remoteDir)}`);
+            return list.some((item) => item.isDirectory && item.name === path.posix.basename(remoteDir));
+        } catch {
+            return false;
+        }
+    }
+
+    // Point all remote operations at a different directory
+    private setTargetDir(remoteDir: string): void {
+        this.targetDir = remoteDir;
+        this.remoteHashFile = path.posix.join(remoteDir, FtpDeploy.HASH_FILE_NAME);
+    }
+
+    // Get the staging and backup directories that sit beside remote_dir
+    private getAtomicDirs(): { live: string; staging: string; backup: string } {
+        const live = this.config.remote_dir.replace(/\/+$/, '');
+        if (!live || live === '.') throw new Error('Atomic mode requires remote_dir to be a subdirectory, not the server root');
+        return {
+            live,
+            staging: live + FtpDeploy.STAGING_SUFFIX,
+            backup: live + FtpDeploy.BACKUP_SUFFIX
+        };
+    }
+
+    // Prepare staging directory, reusing the previous release so only changed files need uploading
+    private async prepareStaging(): Promise<void> {
+        const { staging, backup } = this.getAtomicDirs();
+        const stagingExists = await this.remoteDirExists(staging);
+        const backupExists = await this.remoteDirExists(backup);
+        if (this.config.dry_run) {
+            const source = !stagingExists && backupExists ? backup : staging;
+            this.logger.info(`🎭 Would stage deployment in ${staging}${source === backup ? ` (reusing ${backup})` : ''}`);
+            this.setTargetDir(source);
+            return;
+        }
+        if (stagingExists) this.logger.info(`🎭 Resuming leftover staging directory: ${staging}`);
+        else if (backupExists) {
+            this.logger.info(`🎭 Reusing previous release as staging: ${backup} → ${staging}`);
+            await this.executeWithRetry(async () => {
+                await this.client.rename(backup, staging);
+            }, 'Rename backup to staging');
+        } else {
+            this.logger.info(`🎭 Creating staging directory: ${staging}`);
+            await this.executeWithRetry(async () => {
+                await this.client.ensureDir(staging);
+            }, 'Create staging directory');
+        }
+        this.setTargetDir(staging);
+    }
+
+    // Copy live files that must survive the swap (preserved paths, or everything when clean mode is off) into staging
+    private async carryOverFromLive(localFiles: Record<string, LocalFile>): Promise<Set<string>> {
+        const { live } = this.getAtomicDirs();
+        const carried = new Set<string>();
+        if (!(await this.remoteDirExists(live))) return carried;
+        // Excluded files are not managed by the deploy, so they always move along
+        const liveFiles = await this.getRemoteFileInfos(live, live, false);
+        const stagedFiles = await this.getRemoteFileInfos(this.targetDir, this.targetDir, false);
+        const candidates = Object.keys(liveFiles).filter((file) => !localFiles[file] &&
+            (!this.config.clean_remote_files || this.shouldPreserve(file) || !this.filter.check(file).included));
+        if (candidates.length === 0) return carried;
+        this.logger.info(`\n📦 Carrying over ${candidates.length} files from the live release...`);
+        const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-ftp-'));
+        try {
+            for (const file of candidates) {
+                carried.add(file);
+                if (stagedFiles[file] && stagedFiles[file].size === liveFiles[file].size) continue;
                 if (this.config.dry_run) {
-                    console.log(`🗑️ ${action}: ${file}`);
-                    this.stats.removed.push(file);
-                } else {
-                    const remoteFile = path.posix.join(this.config.remote_dir, file);
-                    await this.client.remove(remoteFile);
-                    console.log(`🗑️ Cleared: ${file}`);
-                    this.stats.removed.push(file);
+                    this.logger.info(`📦 Would carry over: ${file}`);
+                    continue;
                 }
-            } catch (err) {
-                const errorMsg = `Failed to clear ${file}: ${err}`;
-                console.error(`❌ ${errorMsg}`);
-                this.stats.errors.push(errorMsg);
+                const tempFile = path.join(tempDir, 'carry');
+                const stagedFile = path.posix.join(this.targetDir, file);
+                await this.executeWithRetry(async () => {
+                    await this.client.downloadTo(tempFile, path.posix.join(live, file));
+                    await this.client.ensureDir(path.posix.dirname(stagedFile));
+                    await this.client.uploadFrom(tempFile, stagedFile);
+                }, `Carry over ${file}`);
+                this.logger.info(`📦 Carried over: ${file}`);
             }
+        } finally {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+        return carried;
+    }
+
+    // Verify the swapped release is live and run the user supplied check
+    private async runPostDeployCheck(): Promise<void> {
+        const { live } = this.getAtomicDirs();
+        if (!(await this.remoteFileExists(path.posix.join(live, FtpDeploy.HASH_FILE_NAME)))) {
+            throw new Error(`Hash file missing from ${live} after swap`);
+        }
+        if (this.config.post_deploy_check && !(await this.config.post_deploy_check(this.stats))) {
+            throw new Error('Post-deploy check failed');
+        }
+    }
+
+    // Swap staging into place with FTP RENAME, keeping the previous release as a backup
+    private async swapStaging(): Promise<void> {
+        const { live, staging, backup } = this.getAtomicDirs();
+        this.logger.info(`\n🔀 Swapping ${staging} → ${live}...`);
+        if (await this.remoteDirExists(backup)) {
+            this.logger.info(`🗑️  Removing stale backup: ${backup}`);
+            await this.executeWithRetry(async () => {
+                await this.client.removeDir(backup);
+            }, 'Remove stale backup');
+        }
+        // Staging gets a copy of the lock first, so remote_dir stays locked across the swap
+        if (this.lock) await this.uploadJson(path.posix.join(staging, FtpDeploy.LOCK_FILE_NAME), this.lock);
+        const liveExists = await this.remoteDirExists(live);
+        if (liveExists) {
+            await this.executeWithRetry(async () => {
+                await this.client.rename(live, backup);
+            }, 'Move live release to backup');
+        }
+        try {
+            await this.executeWithRetry(async () => {
+                await this.client.rename(staging, live);
+            }, 'Move staging into place');
+        } catch (err) {
+            this.logger.error(`❌ Swap failed: ${err}`);
+            if (liveExists) await this.restoreBackup();
+            throw err;
+        }
+        this.setTargetDir(live);
+        try {
+            await this.runPostDeployCheck();
+        } catch (err) {
+            this.logger.error(`❌ ${err instanceof Error ? err.message : err}, rolling back...`);
+            await this.executeWithRetry(async () => {
+                await this.client.rename(live, staging);
+            }, 'Move failed release back to staging');
+            if (liveExists) await this.restoreBackup();
+            throw err;
+        }
+        if (liveExists && this.lock) {
+            try {
+                await this.executeWithRetry(async () => {
+                    await this.client.remove(path.posix.join(backup, FtpDeploy.LOCK_FILE_NAME));
+                }, 'Remove backup lock file');
+            } catch {}
         }
+        this.logger.info(`✅ Swap completed${liveExists ? `, previous release kept in ${backup}` : ''}`);
+    }
+
+    // Restore the backup release into remote_dir
+    private async restoreBackup(): Promise<void> {
+        const { live, backup } = this.getAtomicDirs();
+        await this.executeWithRetry(async () => {
+            await this.client.rename(backup, live);
+        }, 'Restore backup');
+        this.logger.info(`↩️  Restored previous release from ${backup}`);
+    }
+
+    // Clear entire remote destination
+    private async clearDestination(): Promise<void> {
+        const action = this.config.dry_run ? 'Would clear' : 'Clearing';
+        this.logger.info(`\n🧹 CLEAR_DESTINATION enabled - ${action.toLowerCase()} all remote files...`);
+        const remoteFiles = await this.getRemoteFileInfos(this.targetDir);
+        await this.runPool(Object.keys(remoteFiles), async (file, connection) => {
+            await this.removeFile(file, createManifest(), connection, remoteFiles[file].size);
+        });
         // Remove empty directories after clearing files
-        console.log(`\n📁 ${action} empty directories...`);
-        await this.removeEmptyDirectories(this.config.remote_dir);
+        this.logger.info(`\n📁 ${action} empty directories...`);
+        await this.removeEmptyDirectories(this.targetDir);
     }
 
-    // Load remote hash file
-    private async loadRemoteHashes(): Promise<Record<string, string>> {
-        const remoteHashes: Record<string, string> = {};
+    // Load remote hash file, migrating the flat format of older versions
+    private async loadManifest(): Promise<Manifest> {
+        let data: unknown;
+        this.manifestDigest = null;
         const hashFileExists = await this.remoteFileExists(this.remoteHashFile);
         if (hashFileExists) {
-            const tempHashFile = path.join(__dirname, FtpDeploy.HASH_FILE_NAME);
+            // A directory of its own, so parallel runs and read-only installs are no problem
+            const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-ftp-'));
+            const tempHashFile = path.join(tempDir, FtpDeploy.HASH_FILE_NAME);
             try {
                 await this.executeWithRetry(async () => {
                     await this.client.downloadTo(tempHashFile, this.remoteHashFile);
                 }, 'Download hash file');
                 
                 const hashStr = fs.readFileSync(tempHashFile, 'utf8');
-                if (hashStr) {
-                    Object.assign(remoteHashes, JSON.parse(hashStr));
-                    console.log(`✅ Found remote hash file with ${Object.keys(remoteHashes).length} entries`);
-                }
+                this.manifestDigest = crypto.createHash('sha256').update(hashStr).digest('hex');
+                if (hashStr) data = JSON.parse(hashStr);
             } catch (err) {
-                console.log(`⚠️ Error reading remote hash file: ${err}`);
+                this.logger.warn(`⚠️ Error reading remote hash file: ${err}`);
             } finally {
-                try {
-                    fs.unlinkSync(tempHashFile);
-                } catch {}
+                fs.rmSync(tempDir, { recursive: true, force: true });
             }
-        } else console.log('⚠️  Remote hash file not found, creating a new one.');
-        return remoteHashes;
+        } else this.logger.warn('⚠️  Remote hash file not found, creating a new one.');
+        if (data === undefined) return createManifest(this.config.hash_algorithm);
+        // A manifest this version cannot read must stop the deploy rather than be overwritten
+        const manifest = parseManifest(data);
+        this.logger.info(`✅ Found remote hash file with ${Object.keys(manifest.files).length} entries`);
+        if (isLegacyManifest(data)) this.logger.info(`🔁 Migrating hash file to manifest version ${manifest.version}`);
+        if (manifest.checkpoint) this.logger.info(`⏩ Resuming an interrupted deploy checkpointed${manifest.updated_at ? ` at ${manifest.updated_at}` : ''}`);
+        return manifest;
     }
 
-    // Save remote hash file
-    private async saveRemoteHashes(remoteHashes: Record<string, string>): Promise<void> {
-        const tempHashFile = path.join(__dirname, FtpDeploy.HASH_FILE_NAME);
+    // Save remote hash file, marked as a checkpoint while the deploy is still running
+    private async saveManifest(manifest: Manifest, connection: Connection = this.connections[0], checkpoint = false): Promise<void> {
+        // Checkpoints of concurrent connections each write their own copy
+        const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-ftp-'));
+        const tempHashFile = path.join(tempDir, FtpDeploy.HASH_FILE_NAME);
         try {
-            fs.writeFileSync(tempHashFile, JSON.stringify(remoteHashes, null, 2));
+            const pending = manifest.pending && Object.keys(manifest.pending).length > 0 ? manifest.pending : undefined;
+            const data: Manifest = {
+                version: MANIFEST_VERSION,
+                algorithm: manifest.algorithm,
+                updated_at: new Date().toISOString(),
+                ...(checkpoint && { checkpoint: true }),
+                ...(pending && { pending }),
+                files: manifest.files,
+                ...(manifest.directories && Object.keys(manifest.directories).length > 0 && { directories: manifest.directories })
+            };
+            fs.writeFileSync(tempHashFile, JSON.stringify(data, null, 2));
             await this.executeWithRetry(async () => {
-                await this.client.uploadFrom(tempHashFile, this.remoteHashFile);
-            }, 'Upload hash file');
+                await connection.client.uploadFrom(tempHashFile, this.remoteHashFile);
+            }, 'Upload hash file', connection);
         } finally {
-            try {
-                fs.unlinkSync(tempHashFile);
-            } catch {}
+            fs.rmSync(tempDir, { recursive: true, force: true });
         }
     }
 
-    // Print deployment analysis
-    private printAnalysis(localHashes: Record<string, string>, remoteHashes: Record<string, string>, remoteFiles?: string[]): void {
-        console.log('\n' + '='.repeat(60));
-        console.log('📊 DEPLOY ANALYSIS');
-        console.log('='.repeat(60));
-        console.log(`\n🏠 Local directory: ${this.config.local_dir}`);
-        console.log(`🌐 Remote directory: ${this.config.remote_dir}`);
-        console.log(`🧹 Clean mode: ${this.config.clean_remote_files ? '✅ ENABLED' : '❌ DISABLED'}`);
-        console.log(`🚨 Clear destination: ${this.config.clear_destination ? '✅ ENABLED' : '❌ DISABLED'}`);
-        console.log(`🔍 Dry run: ${this.config.dry_run ? '✅ ENABLED' : '❌ DISABLED'}`);
-        console.log(`🔄 Auto reconnect: ${this.config.reconnect ? '✅ ENABLED' : '❌ DISABLED'}`);
-        if (this.config.reconnect) console.log(`🔁 Max retries: ${this.config.max_retries}, Retry delay: ${this.config.retry_delay}ms`);
-        if (this.config.preserve && this.config.preserve.length > 0) console.log(`🛡️  Preserve paths: ${this.config.preserve.join(', ')}`);
-        console.log(`\n📁 Total local files: ${Object.keys(localHashes).length}`);
-        if (remoteFiles) console.log(`📁 Total remote files: ${remoteFiles.length}`);
-        else console.log(`📁 Total remote files (from hash): ${Object.keys(remoteHashes).length}`);
-        const filesToUpload = Object.keys(localHashes).filter((localPath) => remoteHashes[localPath] !== localHashes[localPath]);
-        if (filesToUpload.length > 0) {
-            console.log(`\n📤 FILES TO UPLOAD (${filesToUpload.length}):`);
-            filesToUpload.forEach((file) => console.log(`   ↗️  ${file}`));
+    // Download and parse a remote JSON file
+    private async downloadJson<T>(remotePath: string): Promise<T> {
+        const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-ftp-'));
+        const tempFile = path.join(tempDir, path.posix.basename(remotePath));
+        try {
+            await this.executeWithRetry(async () => {
+                await this.client.downloadTo(tempFile, remotePath);
+            }, `Download ${remotePath}`);
+            return JSON.parse(fs.readFileSync(tempFile, 'utf8'));
+        } finally {
+            fs.rmSync(tempDir, { recursive: true, force: true });
         }
-        if (this.config.clean_remote_files && remoteFiles && !this.config.clear_destination) {
-            const filesToRemove = remoteFiles.filter((remotePath) => !localHashes[remotePath]);
-            if (filesToRemove.length > 0) {
-                console.log(`\n🗑️  FILES TO REMOVE (${filesToRemove.length}):`);
-                filesToRemove.forEach((file) => console.log(`   ❌ ${file}`));
-            }
+    }
+
+    // Serialize and upload a JSON file
+    private async uploadJson(remotePath: string, data: unknown): Promise<void> {
+        const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-ftp-'));
+        const tempFile = path.join(tempDir, path.posix.basename(remotePath));
+        try {
+            fs.writeFileSync(tempFile, JSON.stringify(data, null, 2));
+            await this.executeWithRetry(async () => {
+                await this.client.ensureDir(path.posix.dirname(remotePath));
+                await this.client.uploadFrom(tempFile, remotePath);
+            }, `Upload ${remotePath}`);
+        } finally {
+            fs.rmSync(tempDir, { recursive: true, force: true });
         }
-        console.log('\n' + '='.repeat(60));
     }
 
-    // Print final summary
-    private printSummary(): void {
-        const duration = Date.now() - this.startTime;
-        const seconds = (duration / 1000).toFixed(2);
+    // The lock lives in the live remote_dir, whatever directory a mode writes to
+    private get lockFile(): string {
+        return path.posix.join(this.config.remote_dir, FtpDeploy.LOCK_FILE_NAME);
+    }
 
-        console.log('✨ DEPLOY COMPLETED ✨');
-        console.log(`📤 Uploaded: ${this.stats.uploaded.length} files`);
-        console.log(`🗑️  Removed: ${this.stats.removed.length} files`);
-        console.log(`✅ Unchanged: ${this.stats.unchanged.length} files`);
-        console.log(`❌ Errors: ${this.stats.errors.length} files`);
-        console.log(`⏱️  Total execution time: ${seconds}s`);
+    // Read the current remote lock, if any
+    private async readLock(): Promise<DeployLock | undefined> {
+        if (!(await this.remoteFileExists(this.lockFile))) return undefined;
+        try {
+            return await this.downloadJson<DeployLock>(this.lockFile);
+        } catch (err) {
+            if (isNotFoundError(err)) return undefined;
+            // An unreadable lock is still a lock, only its age is unknown
+            this.logger.warn(`⚠️ Could not read lock file ${this.lockFile}: ${err}`);
+            return { id: '', owner: 'unknown', host: 'unknown', pid: 0, command: 'unknown', created_at: '' };
+        }
     }
 
-    // Main deploy method
-    async deploy(): Promise<DeployStats> {
-        this.startTime = Date.now();
+    // Describe who holds a lock and since when
+    private describeLock(lock: DeployLock): string {
+        return `${lock.owner}@${lock.host} (PID ${lock.pid}, ${lock.command} since ${lock.created_at || 'an unknown time'})`;
+    }
+
+    // Take the remote lock, waiting for or breaking an existing one as configured.
+    // Read-only runs only wait until nobody else holds it.
+    private async acquireLock(command: string, readOnly = !!this.config.dry_run): Promise<void> {
+        if (this.config.force_unlock) {
+            const current = await this.readLock();
+            if (current && readOnly) {
+                this.logger.info(`🔓 Would force-unlock ${this.describeLock(current)}`);
+                return;
+            }
+            if (current) {
+                this.logger.warn(`🔓 Force-unlocking ${this.config.remote_dir}, held by ${this.describeLock(current)}`);
+                await this.executeWithRetry(async () => {
+                    await this.client.remove(this.lockFile);
+                }, 'Remove lock file');
+            }
+        }
+        const deadline = Date.now() + (this.config.wait_for_lock || 0);
+        const lock: DeployLock = {
+            id: crypto.randomUUID(),
+            owner: os.userInfo().username,
+            host: os.hostname(),
+            pid: process.pid,
+            command,
+            created_at: ''
+        };
+        for (;;) {
+            const current = await this.readLock();
+            if (current) {
+                const age = Date.now() - Date.parse(current.updated_at || current.created_at);
+                if (age > (this.config.lock_timeout ?? 0)) {
+                    this.logger.warn(`⚠️  Breaking stale lock held by ${this.describeLock(current)}`);
+                } else if (Date.now() < deadline) {
+                    this.logger.info(`⏳ Waiting for the lock held by ${this.describeLock(current)}...`);
+                    await this.sleep(Math.min(FtpDeploy.LOCK_POLL_INTERVAL, deadline - Date.now()));
+                    continue;
+                } else {
+                    const message = `${this.config.remote_dir} is locked by ${this.describeLock(current)}, ` +
+                        'use --wait-for-lock to wait or --force-unlock if that deploy is gone';
+                    throw Object.assign(new Error(message), { code: 'LOCKED' });
+                }
+            }
+            if (readOnly) return;
+            lock.created_at = new Date().toISOString();
+            await this.uploadJson(this.lockFile, lock);
+            // FTP has no exclusive create, so read the lock back and let the loser of a race go round again
+            const written = await this.readLock();
+            if (written?.id === lock.id) break;
+        }
+        this.lock = lock;
+        this.logger.info(`🔒 Locked ${this.config.remote_dir}`);
+    }
+
+    // Rewrite the lock with a new timestamp so a long session is not taken for stale
+    private async refreshLock(): Promise<void> {
+        if (!this.lock) return;
+        this.lock.updated_at = new Date().toISOString();
+        await this.uploadJson(this.lockFile, this.lock);
+    }
+
+    // Remove the lock if it is still ours, never failing the run over it
+    private async releaseLock(): Promise<void> {
+        const lock = this.lock;
+        if (!lock) return;
+        this.lock = undefined;
         try {
-            console.log('🔌 Connecting to FTPS server...');
-            await this.client.access(this.config);
-            console.log('✅ Connected to FTPS server.');
-            // Clear destination if enabled (ignores clean_remote_files)
-            if (this.config.clear_destination) await this.clearDestination();
-            console.log('\n📥 Reading remote hash file...');
-            const remoteHashes = await this.loadRemoteHashes();
-            console.log('\n📂 Scanning local files...');
-            const localFiles = this.getLocalFiles(this.config.local_dir);
-            console.log(`✅ Found ${localFiles.length} local files`);
-            // Create local hashes map
-            const localHashes: Record<string, string> = {};
-            for (const localFile of localFiles) {
-                const relativePath = path.relative(this.config.local_dir, localFile).replace(/\\/g, '/');
-                localHashes[relativePath] = this.calcHash(localFile);
-            }
-            // Scan remote files if clean mode is enabled (and not clearing destination)
-            let remoteFiles: string[] | undefined;
-            if (this.config.clean_remote_files && !this.config.clear_destination) {
-                console.log('\n📂 Scanning remote files (clean mode enabled)...');
-                remoteFiles = await this.getRemoteFiles(this.config.remote_dir);
-                console.log(`✅ Found ${remoteFiles.length} remote files`);
+            const current = await this.readLock();
+            if (current?.id !== lock.id) {
+                this.logger.warn(`⚠️  Lock on ${this.config.remote_dir} was taken over${current ? ` by ${this.describeLock(current)}` : ''}, leaving it`);
+                return;
             }
-            // Show initial analysis
-            this.printAnalysis(localHashes, remoteHashes, remoteFiles);
-            console.log('\n🚀 Starting deployment process...\n');
-            // Process local files
-            for (const localFile of localFiles) {
-                const relativePath = path.relative(this.config.local_dir, localFile).replace(/\\/g, '/');
-                const remoteFile = path.posix.join(this.config.remote_dir, relativePath);
-                const localHash = localHashes[relativePath];
+            await this.executeWithRetry(async () => {
+                await this.client.remove(this.lockFile);
+            }, 'Remove lock file');
+            this.logger.info(`🔓 Unlocked ${this.config.remote_dir}`);
+        } catch (err) {
+            this.logger.warn(`⚠️ Could not remove lock file ${this.lockFile}: ${err}`);
+        }
+    }
+
+    // Get the directory holding the release history of the current mapping. It sits beside remote_dir
+    // like the atomic staging directory, so the web server never serves the backed up files
+    private getReleasesDir(): string {
+        const live = this.mapping.targetDir.replace(/\/+$/, '');
+        if (!live || live === '.') throw new Error('Release history requires remote_dir to be a subdirectory, not the server root');
+        return live + FtpDeploy.RELEASES_SUFFIX;
+    }
+
+    // Get the remote directory holding a release record and its backups
+    private getReleaseDir(id: number): string {
+        return path.posix.join(this.getReleasesDir(), String(id));
+    }
+
+    // List release ids present on the server, oldest first
+    private async getReleaseIds(): Promise<number[]> {
+        try {
+            const list = await this.executeWithRetry(() => this.client.list(this.getReleasesDir()), 'List releases');
+            return list
+                .filter((item) => item.isDirectory && /^\d+$/.test(item.name))
+                .map((item) => parseInt(item.name, 10))
+                .sort((a, b) => a - b);
+        } catch {
+            return [];
+        }
+    }
+
+    // Load all complete release records, oldest first
+    private async loadReleases(): Promise<ReleaseRecord[]> {
+        const releases: ReleaseRecord[] = [];
+        for (const id of await this.getReleaseIds()) {
+            const releaseFile = path.posix.join(this.getReleaseDir(id), FtpDeploy.RELEASE_FILE_NAME);
+            if (!(await this.remoteFileExists(releaseFile))) continue;
+            try {
+                const release = await this.downloadJson<ReleaseRecord>(releaseFile);
+                releases.push({ ...release, manifest: parseManifest(release.manifest) });
+            } catch (err) {
+                this.logger.warn(`⚠️ Could not read release ${id}: ${err}`);
+            }
+        }
+        return releases;
+    }
+
+    // Start a new release record if release history is enabled
+    private async beginRelease(rollbackOf?: number): Promise<void> {
+        if (!this.config.keep_releases || this.config.keep_releases <= 0 || this.config.atomic) return;
+        const live = this.mapping.targetDir.replace(/\/+$/, '');
+        if (!live || live === '.') {
+            this.logger.warn('⚠️ Release history is not kept when remote_dir is the server root');
+            return;
+        }
+        const ids = await this.getReleaseIds();
+        this.release = {
+            id: ids.length > 0 ? ids[ids.length - 1] + 1 : 1,
+            timestamp: new Date().toISOString(),
+            manifest: createManifest(),
+            uploaded: [],
+            removed: [],
+            backups: [],
+            ...(rollbackOf !== undefined && { rollback_of: rollbackOf })
+        };
+    }
+
+    // Move a remote file into the current release's backup area instead of losing it
+    private async backupRemoteFile(relativePath: string, connection: Connection = this.connections[0]): Promise<void> {
+        if (!this.release) return;
+        const remoteFile = path.posix.join(this.targetDir, relativePath);
+        const backupFile = path.posix.join(this.getReleaseDir(this.release.id), 'files', relativePath);
+        try {
+            await this.ensureRemoteDir(path.posix.dirname(backupFile), connection);
+            await this.executeWithRetry(async () => {
+                await connection.client.rename(remoteFile, backupFile);
+            }, `Back up ${relativePath}`, connection);
+            this.release.backups.push(relativePath);
+        } catch (err: any) {
+            // Nothing to back up if the file is already gone
+            if (!isNotFoundError(err)) throw err;
+        }
+    }
+
+    // Write the release record and prune releases beyond the retention count
+    private async finishRelease(manifest: Manifest): Promise<void> {
+        if (!this.release || this.config.dry_run) return;
+        // A failed run may have backed up files without completing any change, rollback still needs the record
+        if (this.release.uploaded.length === 0 && this.release.removed.length === 0 && this.release.backups.length === 0) return;
+        this.release.manifest = JSON.parse(JSON.stringify(manifest));
+        const releaseFile = path.posix.join(this.getReleaseDir(this.release.id), FtpDeploy.RELEASE_FILE_NAME);
+        await this.uploadJson(releaseFile, this.release);
+        this.logger.info(`📚 Recorded release #${this.release.id}`);
+        const ids = await this.getReleaseIds();
+        const expired = ids.slice(0, Math.max(0, ids.length - (this.config.keep_releases || 0)));
+        for (const id of expired) {
+            try {
+                await this.executeWithRetry(async () => {
+                    await this.client.removeDir(this.getReleaseDir(id));
+                }, `Prune release ${id}`);
+                this.logger.info(`🗑️  Pruned release #${id}`);
+            } catch (err) {
+                this.logger.warn(`⚠️ Could not prune release ${id}: ${err}`);
+            }
+        }
+    }
+
+    // Record the release of a run stopped by a critical error, so the files it backed up can be restored
+    private async recordInterruptedRelease(manifest: Manifest): Promise<void> {
+        try {
+            await this.finishRelease(manifest);
+        } catch (err) {
+            this.logger.warn(`⚠️ Could not record the release: ${err}`);
+        }
+    }
+
+    // Upload a single file, backing up the remote copy it replaces
+    private async uploadFile(localFile: string, relativePath: string, hash: string, manifest: Manifest, overwrites: boolean, connection: Connection = this.connections[0]): Promise<void> {
+        const start = Date.now();
+        connection.retries = 0;
+        const mode = this.mapping.permissionMatcher.match(relativePath)?.mode;
+        const result: FileResult = { path: this.qualifyPath(relativePath), action: 'upload', status: 'success', hash, ...(mode && { mode }), duration: 0, retries: 0 };
+        try {
+            const stat = fs.statSync(localFile);
+            result.size = stat.size;
+            this.notify('fileStart', { path: result.path, action: 'upload', size: result.size });
+            if (this.config.dry_run) {
+                this.logger.info(`📤 Would upload: ${relativePath}${mode ? ` (chmod ${mode})` : ''}`);
+            } else {
+                const remoteFile = path.posix.join(this.targetDir, relativePath);
+                const large = stat.size >= FtpDeploy.RESUME_MIN_SIZE;
+                const backup = overwrites && this.release !== undefined;
+                // Large files and files replacing a backed up copy go up under a temporary name,
+                // so the live file stays in place until the new one is complete
+                const staged = large || backup;
+                const uploadPath = staged ? remoteFile + FtpDeploy.UPLOAD_SUFFIX : remoteFile;
+                // An interrupted run already left part of this file under the temporary name
+                let resumable = large && manifest.pending?.[relativePath] === hash;
+                // Create remote directories if needed
+                await this.ensureRemoteDir(path.posix.dirname(remoteFile), connection);
+                if (large && !resumable) {
+                    // Whatever is on the server from now on is the start of this file
+                    await this.removeIfExists(uploadPath, connection);
+                    manifest.pending = { ...manifest.pending, [relativePath]: hash };
+                    await this.checkpoint(manifest, connection, true);
+                    resumable = true;
+                }
+                const onProgress = (bytes: number) => this.notify('fileProgress', { path: result.path, bytes, size: result.size });
+                await this.executeWithRetry(async () => {
+                    const offset = resumable ? await this.getUploadedBytes(uploadPath, stat.size, connection) : 0;
+                    if (offset > 0) this.logger.info(`⏩ Resuming ${relativePath} at ${offset} of ${stat.size} bytes`);
+                    await this.runTransfer(connection, `Upload ${relativePath}`, (progress) => offset > 0 ?
+                        connection.client.appendFrom(localFile, uploadPath, offset, progress) :
+                        connection.client.uploadFrom(localFile, uploadPath, progress), onProgress);
+                }, `Upload ${relativePath}`, connection);
+                if (staged) {
+                    // Renames are not allowed to replace a file everywhere (SFTP), so the live copy moves away first
+                    if (backup) await this.backupRemoteFile(relativePath, connection);
+                    else await this.removeIfExists(remoteFile, connection);
+                    await this.executeWithRetry(async () => {
+                        await connection.client.rename(uploadPath, remoteFile);
+                    }, `Rename ${relativePath}`, connection);
+                }
+                if (manifest.pending) delete manifest.pending[relativePath];
+                this.logger.info(`📤 Uploaded: ${relativePath}`);
+            }
+            if (this.config.dry_run) result.status = 'dry_run';
+            this.release?.uploaded.push(relativePath);
+            manifest.files[relativePath] = { hash, size: stat.size, mtime: Math.floor(stat.mtimeMs), uploaded_at: new Date().toISOString() };
+            this.stats.uploaded.push(result.path);
+        } catch (err) {
+            result.status = 'failed';
+            result.error = this.recordError(err, `Failed to upload ${result.path}: ${err}`, result.path);
+        }
+        result.duration = Date.now() - start;
+        result.retries = connection.retries;
+        this.stats.files.push(result);
+        this.notify('fileDone', result);
+        if (mode && result.status !== 'failed') await this.applyUploadMode(relativePath, mode, manifest, connection);
+    }
+
+    // Apply the permission rule of a file just uploaded. The file stays uploaded when this fails:
+    // the failure is reported as a chmod of its own, and the entry only gets its mode once applied,
+    // so the next run retries the chmod without uploading again
+    private async applyUploadMode(relativePath: string, mode: string, manifest: Manifest, connection: Connection): Promise<void> {
+        if (!this.config.dry_run) {
+            const start = Date.now();
+            connection.retries = 0;
+            try {
+                await this.executeWithRetry(async () => {
+                    await connection.client.chmod(path.posix.join(this.targetDir, relativePath), mode);
+                }, `Chmod ${relativePath}`, connection);
+            } catch (err) {
+                const result: FileResult = { path: this.qualifyPath(relativePath), action: 'chmod', status: 'failed', mode, duration: 0, retries: 0 };
+                result.error = this.recordError(err, `Failed to chmod ${result.path}: ${err}`, result.path);
+                result.duration = Date.now() - start;
+                result.retries = connection.retries;
+                this.stats.files.push(result);
+                this.notify('fileDone', result);
+                return;
+            }
+        }
+        manifest.files[relativePath].mode = mode;
+    }
+
+    // Permission rules of the current mapping that differ from the manifest: unchanged files,
+    // and the directories holding local files (with a trailing `/`)
+    private getModeChanges(localFiles: Record<string, LocalFile>, manifest: Manifest, uploads: string[]): Record<string, string> {
+        const matcher = this.mapping.permissionMatcher;
+        const changes: Record<string, string> = {};
+        if (matcher.isEmpty) return changes;
+        const uploading = new Set(uploads);
+        for (const file of Object.keys(localFiles)) {
+            const mode = matcher.match(file)?.mode;
+            if (mode && !uploading.has(file) && manifest.files[file]?.mode !== mode) changes[file] = mode;
+        }
+        for (const dir of getParentDirectories(Object.keys(localFiles))) {
+            const mode = matcher.match(dir, true)?.mode;
+            if (mode && manifest.directories?.[dir]?.mode !== mode) changes[`${dir}/`] = mode;
+        }
+        return changes;
+    }
+
+    // Apply permission changes, then forget modes that no rule sets any more
+    private async applyModes(changes: Record<string, string>, manifest: Manifest, failedBefore = 0): Promise<void> {
+        const targets = Object.keys(changes);
+        if (targets.length > 0 && this.failedUploads > failedBefore) {
+            this.logger.warn(`\n⏭️  Skipping permission changes of ${targets.length} paths after failed uploads`);
+            targets.forEach((target) => this.skipFile(target, 'chmod'));
+        } else if (targets.length > 0) {
+            this.logger.info(`\n🔐 ${this.config.dry_run ? 'Would apply' : 'Applying'} permissions to ${targets.length} paths...`);
+            await this.runPool(targets, async (target, connection) => {
+                await this.chmodPath(target, changes[target], manifest, connection);
+            });
+        }
+        const matcher = this.mapping.permissionMatcher;
+        for (const [file, entry] of Object.entries(manifest.files)) {
+            if (entry.mode && !matcher.match(file)) delete entry.mode;
+        }
+        const directories = new Set(getParentDirectories(Object.keys(manifest.files)));
+        for (const dir of Object.keys(manifest.directories || {})) {
+            if (!directories.has(dir) || !matcher.match(dir, true)) delete manifest.directories?.[dir];
+        }
+    }
+
+    // Set the mode of a remote file or directory (with a trailing `/`) and record it in the manifest
+    private async chmodPath(target: string, mode: string, manifest: Manifest, connection: Connection = this.connections[0]): Promise<void> {
+        const start = Date.now();
+        connection.retries = 0;
+        const isDirectory = target.endsWith('/');
+        const relativePath = isDirectory ? target.slice(0, -1) : target;
+        const result: FileResult = {
+            path: this.qualifyPath(target),
+            action: 'chmod',
+            status: this.config.dry_run ? 'dry_run' : 'success',
+            mode,
+            duration: 0,
+            retries: 0
+        };
+        try {
+            if (this.config.dry_run) {
+                this.logger.info(`🔐 Would chmod ${mode}: ${target}`);
+            } else {
+                await this.executeWithRetry(async () => {
+                    await connection.client.chmod(path.posix.join(this.targetDir, relativePath), mode);
+                }, `Chmod ${target}`, connection);
+                this.logger.info(`🔐 Chmod ${mode}: ${target}`);
+            }
+            if (isDirectory) manifest.directories = { ...manifest.directories, [relativePath]: { mode } };
+            else if (manifest.files[relativePath]) manifest.files[relativePath].mode = mode;
+        } catch (err) {
+            result.status = 'failed';
+            result.error = this.recordError(err, `Failed to chmod ${result.path}: ${err}`, result.path);
+        }
+        result.duration = Date.now() - start;
+        result.retries = connection.retries;
+        this.stats.files.push(result);
+        this.notify('fileDone', result);
+    }
+
+    // Bytes of an interrupted upload already on the server, 0 when it has to start over.
+    // Only called inside the retried upload, which covers it
+    private async getUploadedBytes(remoteFile: string, size: number, connection: Connection): Promise<number> {
+        try {
+            const uploaded = await connection.client.size(remoteFile);
+            return uploaded < size ? uploaded : 0;
+        } catch {
+            return 0;
+        }
+    }
+
+    // Remove a remote file that may not exist
+    private async removeIfExists(remoteFile: string, connection: Connection): Promise<void> {
+        try {
+            await this.executeWithRetry(async () => {
+                await connection.client.remove(remoteFile);
+            }, `Remove ${remoteFile}`, connection);
+        } catch (err) {
+            if (!isNotFoundError(err)) throw err;
+        }
+    }
+
+    // Save the manifest mid-deploy once the checkpoint interval has passed, or right away when forced.
+    // Saves are chained so workers on different connections never write it at the same time.
+    private checkpoint(manifest: Manifest, connection: Connection, force = false): Promise<void> {
+        const interval = this.config.checkpoint_interval || 0;
+        if (this.config.dry_run || (!force && (interval <= 0 || Date.now() - this.lastCheckpoint < interval))) return Promise.resolve();
+        this.lastCheckpoint = Date.now();
+        this.checkpoints = this.checkpoints.then(async () => {
+            await this.saveManifest(manifest, connection, true);
+            this.logger.debug(`💾 Checkpointed hash manifest (${Object.keys(manifest.files).length} entries)`);
+        }).catch((err) => {
+            this.logger.warn(`⚠️ Could not checkpoint the hash manifest: ${err}`);
+        });
+        return this.checkpoints;
+    }
+
+    // Split files into upload phases: files matching no phase first, then each configured phase in order
+    private groupByPhase(files: string[]): { label: string; files: string[] }[] {
+        const phases = (this.config.upload_phases || []).map((patterns, index) => ({
+            label: patterns.join(', '),
+            matcher: new PathMatcher(toRules(patterns, `upload_phases[${index}]`)),
+            files: [] as string[]
+        }));
+        const other = { label: 'other files', files: [] as string[] };
+        for (const file of files) (phases.find((phase) => phase.matcher.match(file).matched) || other).files.push(file);
+        return [other, ...phases].filter((phase) => phase.files.length > 0).map(({ label, files }) => ({ label, files }));
+    }
+
+    // Count failed uploads so far
+    private get failedUploads(): number {
+        return this.stats.files.filter((file) => file.action === 'upload' && file.status === 'failed').length;
+    }
+
+    // Record a file that was not attempted, because an earlier step failed unless another reason is given
+    private skipFile(relativePath: string, action: FileAction, size?: number, reason?: string): void {
+        this.logger.info(`⏭️  Skipped: ${relativePath}${reason ? ` (${reason})` : ''}`);
+        this.stats.files.push({
+            path: this.qualifyPath(relativePath),
+            action,
+            status: 'skipped',
+            ...(size !== undefined && { size }),
+            duration: 0,
+            retries: 0,
+            ...(reason && { reason })
+        });
+    }
+
+    // Remove a single remote file, moving it into the release backup when history is enabled
+    private async removeFile(relativePath: string, manifest: Manifest, connection: Connection = this.connections[0], size?: number): Promise<void> {
+        const start = Date.now();
+        connection.retries = 0;
+        const result: FileResult = {
+            path: this.qualifyPath(relativePath),
+            action: 'remove',
+            status: this.config.dry_run ? 'dry_run' : 'success',
+            ...(size !== undefined && { size }),
+            ...(manifest.files[relativePath]?.hash !== undefined && { hash: manifest.files[relativePath].hash }),
+            duration: 0,
+            retries: 0
+        };
+        try {
+            if (this.config.dry_run) {
+                this.logger.info(`🗑️  Would remove: ${relativePath}`);
+            } else {
+                if (this.release) await this.backupRemoteFile(relativePath, connection);
+                else {
+                    await this.executeWithRetry(async () => {
+                        const remoteFile = path.posix.join(this.targetDir, relativePath);
+                        await connection.client.remove(remoteFile);
+                    }, `Remove ${relativePath}`, connection);
+                }
+                this.logger.info(`🗑️ Removed: ${relativePath}`);
+            }
+            this.stats.removed.push(result.path);
+            this.release?.removed.push(relativePath);
+            delete manifest.files[relativePath];
+        } catch (err) {
+            result.status = 'failed';
+            result.error = this.recordError(err, `Failed to remove ${result.path}: ${err}`, result.path);
+        }
+        result.duration = Date.now() - start;
+        result.retries = connection.retries;
+        this.stats.files.push(result);
+        this.notify('remove', result);
+    }
+
+    // Hash a remote file, on the server when it supports it or by downloading it
+    private async getRemoteHash(relativePath: string, algorithm: HashAlgorithm, tempDir: string, connection: Connection): Promise<string | undefined> {
+        const mode = this.config.verify_checksum;
+        const remoteFile = path.posix.join(this.targetDir, relativePath);
+        if (mode === 'server' || mode === 'auto') {
+            const hash = await this.executeWithRetry(async () => {
+                return connection.client.checksum(remoteFile, algorithm);
+            }, `Checksum ${relativePath}`, connection);
+            if (hash || mode === 'server') return hash;
+        }
+        const localFile = path.join(tempDir, ...relativePath.split('/'));
+        fs.mkdirSync(path.dirname(localFile), { recursive: true });
+        await this.executeWithRetry(async () => {
+            await this.runTransfer(connection, `Download ${relativePath}`, (progress) => connection.client.downloadTo(localFile, remoteFile, progress));
+        }, `Download ${relativePath}`, connection);
+        return this.calcHash(localFile, algorithm);
+    }
+
+    // Compare the hash manifest with the remote listing, flagging missing, modified and untracked files
+    private async verifyRemote(manifest: Manifest, localFiles: Record<string, LocalFile>, remoteInfos: Record<string, RemoteFileInfo>): Promise<DriftReport> {
+        const report: DriftReport = { checked: 0, missing: [], modified: [], untracked: [] };
+        const tracked = Object.keys(manifest.files).filter((file) => !manifest.files[file].preserved && this.filter.check(file).included);
+        // Every deploy writes the manifest last, so files changed after it were touched by hand
+        const manifestTime = await this.executeWithRetry(async () => {
+            return this.client.lastModified(this.remoteHashFile);
+        }, 'MDTM hash file').catch(() => undefined);
+        const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-ftp-'));
+        try {
+            await this.runPool(tracked, async (file, connection) => {
+                report.checked++;
+                const info = remoteInfos[file];
+                if (!info) {
+                    report.missing.push(file);
+                    return;
+                }
+                const entry = manifest.files[file];
                 try {
-                    if (remoteHashes[relativePath] === localHash) {
-                        console.log(`⏸️  Unchanged: ${relativePath}`);
-                        this.stats.unchanged.push(relativePath);
-                        continue;
+                    // Manifests migrated from the flat format have no sizes, an identical local copy tells it instead
+                    const expected = entry.size ?? (entry.hash && localFiles[file]?.hash === entry.hash ? localFiles[file].size : undefined);
+                    if (expected !== undefined && expected !== info.size) {
+                        report.modified.push({ path: file, reason: 'size', detail: `${info.size} bytes, expected ${expected}` });
+                        return;
                     }
-                    if (this.config.dry_run) {
-                        console.log(`📤 Would upload: ${relativePath}`);
-                        this.stats.uploaded.push(relativePath);
-                        remoteHashes[relativePath] = localHash;
-                    } else {
-                        // Create remote directories if needed
-                        const remoteDir = path.posix.dirname(remoteFile);
-                        await this.client.ensureDir(remoteDir);
-                        // Upload file
-                        await this.client.uploadFrom(localFile, remoteFile);
-                        console.log(`📤 Uploaded: ${relativePath}`);
-                        this.stats.uploaded.push(relativePath);
-                        remoteHashes[relativePath] = localHash;
+                    if (!manifestTime) return;
+                    const modifiedAt = await this.executeWithRetry(async () => {
+                        return connection.client.lastModified(path.posix.join(this.targetDir, file));
+                    }, `MDTM ${file}`, connection);
+                    if (!modifiedAt || modifiedAt <= manifestTime) return;
+                    const detail = `modified ${modifiedAt.toISOString()}, after the last deploy`;
+                    if (!this.config.verify_checksum || this.config.verify_checksum === 'none' || !entry.hash) {
+                        report.modified.push({ path: file, reason: 'mtime', detail });
+                        return;
                     }
+                    // A newer timestamp alone may be a touch, the checksum decides
+                    const hash = await this.getRemoteHash(file, manifest.algorithm, tempDir, connection);
+                    if (hash === undefined) report.modified.push({ path: file, reason: 'mtime', detail });
+                    else if (hash !== entry.hash) report.modified.push({ path: file, reason: 'checksum', detail: `hash ${hash}, expected ${entry.hash}` });
+                } catch (err) {
+                    this.recordError(err, `Failed to verify ${this.qualifyPath(file)}: ${err}`, this.qualifyPath(file));
+                }
+            });
+        } finally {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+        report.untracked = Object.keys(remoteInfos).filter((file) => !manifest.files[file] && !this.getPreserveRule(file));
+        report.missing.sort();
+        report.modified.sort((a, b) => a.path.localeCompare(b.path));
+        report.untracked.sort();
+        // Several mappings add up to one report of paths qualified with their remote_dir
+        const qualified: DriftReport = {
+            checked: report.checked,
+            missing: report.missing.map((file) => this.qualifyPath(file)),
+            modified: report.modified.map((file) => ({ ...file, path: this.qualifyPath(file.path) })),
+            untracked: report.untracked.map((file) => this.qualifyPath(file))
+        };
+        const previous = this.stats.drift;
+        this.stats.drift = previous ? {
+            checked: previous.checked + qualified.checked,
+            missing: [...previous.missing, ...qualified.missing],
+            modified: [...previous.modified, ...qualified.modified],
+            untracked: [...previous.untracked, ...qualified.untracked]
+        } : qualified;
+        this.notify('drift', qualified);
+        this.printDrift(report);
+        return report;
+    }
+
+    // Print the verification result
+    private printDrift(report: DriftReport): void {
+        report.missing.forEach((file) => this.logger.warn(`❓ Missing: ${file}`));
+        report.modified.forEach((file) => this.logger.warn(`✏️  Modified: ${file.path} (${file.detail})`));
+        report.untracked.forEach((file) => this.logger.info(`👻 Untracked: ${file}`));
+        const drifted = report.missing.length + report.modified.length;
+        if (drifted === 0 && report.untracked.length === 0) {
+            this.logger.info(`✅ All ${report.checked} tracked files match the hash manifest`);
+        } else {
+            this.logger.info(`🔎 Checked ${report.checked} files: ${report.missing.length} missing, ${report.modified.length} modified, ${report.untracked.length} untracked`);
+        }
+    }
+
+    // Find the files present on both sides whose content differs: by manifest hash while the listed size agrees,
+    // by hashing the remote copy otherwise or, with confirm, whenever the manifest hash differs.
+    // Downloaded copies stay in tempDir for later use
+    private async findModified(manifest: Manifest, localFiles: Record<string, LocalFile>, remoteInfos: Record<string, RemoteFileInfo>, tempDir: string, confirm = false): Promise<string[]> {
+        const modified: string[] = [];
+        const shared = Object.keys(localFiles).filter((file) => remoteInfos[file]);
+        await this.runPool(shared, async (file, connection) => {
+            const entry = manifest.files[file];
+            const local = localFiles[file];
+            const size = remoteInfos[file].size;
+            if (entry?.hash && (entry.size === undefined || entry.size === size) && (!confirm || entry.hash === local.manifestHash)) {
+                if (entry.hash !== local.manifestHash) modified.push(file);
+            } else if (local.size !== size) modified.push(file);
+            else {
+                try {
+                    const hash = await this.getRemoteHash(file, manifest.algorithm, tempDir, connection);
+                    if (hash !== local.manifestHash) modified.push(file);
                 } catch (err) {
-                    const errorMsg = `Failed to upload ${relativePath}: ${err}`;
-                    console.error(`❌ ${errorMsg}`);
-                    this.stats.errors.push(errorMsg);
+                    this.recordError(err, `Failed to compare ${this.qualifyPath(file)}: ${err}`, this.qualifyPath(file));
                 }
             }
-            // Clean remote files
-            if (this.config.clean_remote_files && !this.config.clear_destination && remoteFiles) {
-                const orphanedFiles = remoteFiles.filter((remotePath) => !localHashes[remotePath]);
-                console.log(`\n🔍 Found ${orphanedFiles.length} orphaned remote files`);
-                if (this.config.preserve && this.config.preserve.length > 0) {
-                    console.log(`🛡️  Checking preserve patterns: ${this.config.preserve.join(', ')}`);
+        });
+        return modified.sort();
+    }
+
+    // Download a remote file of the current mapping into its local_dir
+    private async downloadFile(relativePath: string, info: RemoteFileInfo, tempDir: string, connection: Connection = this.connections[0]): Promise<void> {
+        const start = Date.now();
+        connection.retries = 0;
+        const result: FileResult = {
+            path: this.qualifyPath(relativePath),
+            action: 'download',
+            status: this.config.dry_run ? 'dry_run' : 'success',
+            size: info.size,
+            duration: 0,
+            retries: 0
+        };
+        this.notify('fileStart', { path: result.path, action: 'download', size: info.size });
+        try {
+            if (this.config.dry_run) {
+                this.logger.info(`📥 Would download: ${relativePath}`);
+            } else {
+                const localFile = path.join(this.config.local_dir, ...relativePath.split('/'));
+                // Fetched into tempDir first, unless compared already, so a dropped connection never truncates the local copy
+                const tempFile = path.join(tempDir, ...relativePath.split('/'));
+                if (!fs.existsSync(tempFile)) {
+                    fs.mkdirSync(path.dirname(tempFile), { recursive: true });
+                    const onProgress = (bytes: number) => this.notify('fileProgress', { path: result.path, bytes, size: info.size });
+                    await this.executeWithRetry(async () => {
+                        await this.runTransfer(connection, `Download ${relativePath}`, (progress) => {
+                            return connection.client.downloadTo(tempFile, path.posix.join(this.targetDir, relativePath), progress);
+                        }, onProgress);
+                    }, `Download ${relativePath}`, connection);
                 }
-                
-                const filesToRemove = orphanedFiles.filter((remotePath) => !this.shouldPreserve(remotePath));
-                
-                // Preserve files should keep their hash entries
-                const preservedFiles = orphanedFiles.filter((remotePath) => this.shouldPreserve(remotePath));
-                if (preservedFiles.length > 0) {
-                    console.log(`🛡️  Preserved ${preservedFiles.length} files from deletion`);
-                    // Keep the hash entries for preserved files
-                    preservedFiles.forEach(file => {
-                        if (!remoteHashes[file]) {
-                            // If we don't have a hash, create a placeholder to keep the file tracked
-                            remoteHashes[file] = 'preserved';
-                        }
-                    });
+                fs.mkdirSync(path.dirname(localFile), { recursive: true });
+                fs.copyFileSync(tempFile, localFile);
+                fs.rmSync(tempFile);
+                if (info.modifiedAt) fs.utimesSync(localFile, info.modifiedAt, info.modifiedAt);
+                this.logger.info(`📥 Downloaded: ${relativePath}`);
+            }
+            this.stats.downloaded.push(result.path);
+        } catch (err) {
+            result.status = 'failed';
+            result.error = this.recordError(err, `Failed to download ${result.path}: ${err}`, result.path);
+        }
+        result.duration = Date.now() - start;
+        result.retries = connection.retries;
+        this.stats.files.push(result);
+        this.notify('fileDone', result);
+    }
+
+    // Delete a local file that is gone from the server, with the directories it leaves empty
+    private deleteLocalFile(relativePath: string, size: number): void {
+        const result: FileResult = {
+            path: this.qualifyPath(relativePath),
+            action: 'remove',
+            status: this.config.dry_run ? 'dry_run' : 'success',
+            size,
+            duration: 0,
+            retries: 0
+        };
+        try {
+            if (this.config.dry_run) {
+                this.logger.info(`🗑️  Would delete: ${relativePath}`);
+            } else {
+                const localFile = path.join(this.config.local_dir, ...relativePath.split('/'));
+                fs.unlinkSync(localFile);
+                let dir = path.dirname(localFile);
+                while (path.resolve(dir) !== path.resolve(this.config.local_dir) && fs.readdirSync(dir).length === 0) {
+                    fs.rmdirSync(dir);
+                    dir = path.dirname(dir);
                 }
-                
-                if (filesToRemove.length > 0) {
-                    const action = this.config.dry_run ? 'Would clean up' : 'Cleaning up';
-                    console.log(`\n🧹 ${action} ${filesToRemove.length} orphaned remote files...`);
-                    for (const fileToRemove of filesToRemove) {
-                        try {
-                            if (this.config.dry_run) {
-                                console.log(`🗑️  Would remove: ${fileToRemove}`);
-                                this.stats.removed.push(fileToRemove);
-                                delete remoteHashes[fileToRemove];
-                            } else {
-                                await this.executeWithRetry(async () => {
-                                    const remoteFile = path.posix.join(this.config.remote_dir, fileToRemove);
-                                    await this.client.remove(remoteFile);
-                                }, `Remove ${fileToRemove}`);
-                                
-                                console.log(`🗑️ Removed: ${fileToRemove}`);
-                                this.stats.removed.push(fileToRemove);
-                                delete remoteHashes[fileToRemove];
-                            }
-                        } catch (err) {
-                            const errorMsg = `Failed to remove ${fileToRemove}: ${err}`;
-                            console.error(`❌ ${errorMsg}`);
-                            this.stats.errors.push(errorMsg);
-                        }
+                this.logger.info(`🗑️  Deleted: ${relativePath}`);
+            }
+            this.stats.removed.push(result.path);
+        } catch (err) {
+            result.status = 'failed';
+            result.error = this.recordError(err, `Failed to delete ${result.path}: ${err}`, result.path);
+        }
+        this.stats.files.push(result);
+        this.notify('remove', result);
+    }
+
+    // Unified diffs of the modified text files, reading remote copies fetched by findModified or downloading them
+    private async getPatches(files: string[], localFiles: Record<string, LocalFile>, tempDir: string): Promise<Record<string, string>> {
+        const patches: Record<string, string> = {};
+        await this.runPool(files.filter((file) => isTextFile(localFiles[file].path)), async (file, connection) => {
+            const tempFile = path.join(tempDir, ...file.split('/'));
+            try {
+                if (!fs.existsSync(tempFile)) {
+                    fs.mkdirSync(path.dirname(tempFile), { recursive: true });
+                    await this.executeWithRetry(async () => {
+                        await connection.client.downloadTo(tempFile, path.posix.join(this.targetDir, file));
+                    }, `Download ${file}`, connection);
+                }
+                if (!isTextFile(tempFile)) return;
+                const patch = unifiedDiff(fs.readFileSync(tempFile, 'utf8'), fs.readFileSync(localFiles[file].path, 'utf8'), `remote/${file}`, `local/${file}`);
+                if (patch) patches[file] = patch;
+            } catch (err) {
+                this.recordError(err, `Failed to diff ${this.qualifyPath(file)}: ${err}`, this.qualifyPath(file));
+            }
+        });
+        return patches;
+    }
+
+    // Print the differences in both directions, then the requested content diffs
+    private printDiff(report: DiffReport): void {
+        if (report.localOnly.length + report.remoteOnly.length + report.modified.length === 0) {
+            this.logger.info(`✅ All ${report.unchanged} files are identical locally and on the server`);
+            return;
+        }
+        const directions: [string, string[], string[]][] = [
+            ['📤 Local → remote', report.localOnly, report.remoteOnly],
+            ['📥 Remote → local', report.remoteOnly, report.localOnly]
+        ];
+        for (const [label, added, deleted] of directions) {
+            this.logger.info(`\n${label}: ${added.length} added, ${report.modified.length} modified, ${deleted.length} deleted`);
+            added.forEach((file) => this.logger.info(`   ➕ ${file}`));
+            report.modified.forEach((file) => this.logger.info(`   ✏️  ${file}`));
+            deleted.forEach((file) => this.logger.info(`   ➖ ${file}`));
+        }
+        if (!report.patches) return;
+        for (const file of report.modified) {
+            if (report.patches[file]) this.logger.info(`\n${report.patches[file]}`);
+            else this.logger.info(`\n📄 ${file}: binary, over 1 MB or too different to show`);
+        }
+    }
+
+    // Compare the local files of the current mapping with its manifest and remote scan
+    private buildAnalysis(localFiles: Record<string, LocalFile>, manifest: Manifest, oversized: Record<string, number>, remoteFiles?: string[], carriedFiles?: Set<string>): DeployAnalysis {
+        const toUpload = Object.keys(localFiles).filter((localPath) => manifest.files[localPath]?.hash !== localFiles[localPath].hash);
+        const analysis: DeployAnalysis = {
+            local_dir: this.config.local_dir,
+            remote_dir: this.config.remote_dir,
+            localFiles: Object.keys(localFiles).length,
+            ...(remoteFiles && { remoteFiles: remoteFiles.length }),
+            toUpload,
+            toRemove: [],
+            toChmod: this.getModeChanges(localFiles, manifest, toUpload),
+            oversized,
+            preserved: {},
+            excludedLocal: { ...this.excludedLocal },
+            excludedRemote: {}
+        };
+        if ((this.config.clean_remote_files || this.config.atomic) && remoteFiles && !this.config.clear_destination) {
+            // Skipped oversized files keep whatever version the server has
+            const orphanedFiles = remoteFiles.filter((remotePath) => !localFiles[remotePath] && !oversized[remotePath] && !carriedFiles?.has(remotePath));
+            for (const file of orphanedFiles) {
+                const rule = this.getPreserveRule(file);
+                if (rule) analysis.preserved[file] = rule;
+                else analysis.toRemove.push(file);
+            }
+            analysis.excludedRemote = { ...this.excludedRemote };
+        }
+        return analysis;
+    }
+
+    // Print deployment analysis: the shared settings, then the files of every mapping
+    private printAnalysis(plans: MappingPlan[]): void {
+        this.logger.info('\n' + '='.repeat(60));
+        this.logger.info('📊 DEPLOY ANALYSIS');
+        this.logger.info('='.repeat(60));
+        this.logger.info(`\n🔌 Protocol: ${this.client.label}`);
+        this.logger.info(`🚨 Clear destination: ${this.config.clear_destination ? '✅ ENABLED' : '❌ DISABLED'}`);
+        this.logger.info(`🔍 Dry run: ${this.config.dry_run ? '✅ ENABLED' : '❌ DISABLED'}`);
+        this.logger.info(`🔄 Auto reconnect: ${this.config.reconnect ? '✅ ENABLED' : '❌ DISABLED'}`);
+        this.logger.info(`🎭 Atomic mode: ${this.config.atomic ? '✅ ENABLED' : '❌ DISABLED'}`);
+        this.logger.info(`🔀 Concurrency: ${this.config.concurrency} connection(s)`);
+        if (this.config.reconnect) this.logger.info(`🔁 Max retries: ${this.config.max_retries}, Retry delay: ${this.config.retry_delay}ms doubling up to ${this.config.max_retry_delay}ms`);
+        if (this.config.max_errors) this.logger.info(`🛑 Max errors: aborting after ${this.config.max_errors} failed files`);
+        if (this.config.max_bandwidth) this.logger.info(`🐢 Max bandwidth: ${formatBytes(this.config.max_bandwidth)}/s`);
+        if (this.config.max_file_size) this.logger.info(`📏 Max file size: ${formatBytes(this.config.max_file_size)} (${this.config.oversized_files === 'skip' ? 'skip' : 'fail'} larger files)`);
+        if (this.config.transfer_timeout) this.logger.info(`⏳ Transfer timeout: ${this.config.transfer_timeout}ms without data`);
+        if (this.config.upload_phases && this.config.upload_phases.length > 0) {
+            this.logger.info(`🪜 Upload phases: ${['other files', ...this.config.upload_phases.map((patterns) => patterns.join(', '))].join(' → ')}`);
+        }
+        const maintenancePath = this.getMaintenancePath(this.mappings[0].config);
+        if (maintenancePath) this.logger.info(`🚧 Maintenance file: ${maintenancePath}${this.config.atomic ? ' (not needed in atomic mode)' : ''}`);
+        // Each mapping is printed while it is the active one, so its own settings show
+        for (const [index, plan] of plans.entries()) {
+            this.switchMapping(plan.state);
+            const { analysis, manifest, remoteFiles } = plan;
+            if (plans.length > 1) {
+                this.logger.info('\n' + '-'.repeat(60));
+                this.logger.info(`🗂️  MAPPING ${index + 1}/${plans.length}: ${this.config.local_dir} → ${this.config.remote_dir}`);
+                this.logger.info('-'.repeat(60));
+            }
+            this.logger.info(`\n🏠 Local directory: ${this.config.local_dir}`);
+            this.logger.info(`🌐 Remote directory: ${this.config.remote_dir}`);
+            if (this.config.atomic) this.logger.info(`🎭 Staging directory: ${this.targetDir}`);
+            this.logger.info(`🧹 Clean mode: ${this.config.clean_remote_files ? '✅ ENABLED' : '❌ DISABLED'}`);
+            if (this.config.preserve && this.config.preserve.length > 0) this.logger.info(`🛡️  Preserve paths: ${this.config.preserve.join(', ')}`);
+            if (this.config.include && this.config.include.length > 0) this.logger.info(`✅ Include: ${this.config.include.join(', ')}`);
+            if (this.config.exclude && this.config.exclude.length > 0) this.logger.info(`🚫 Exclude: ${this.config.exclude.join(', ')}`);
+            const transforms = this.mapping.transforms.describe();
+            if (transforms.length > 0) this.logger.info(`🧪 Transforms: ${transforms.join('; ')}`);
+            const permissions = Object.entries(this.config.permissions || {});
+            if (permissions.length > 0) this.logger.info(`🔐 Permissions: ${permissions.map(([pattern, mode]) => `${pattern} → ${mode}`).join(', ')}`);
+            if (this.release) this.logger.info(`📚 Release history: keeping ${this.config.keep_releases} releases (next: #${this.release.id})`);
+            this.logger.info(`#️⃣  Hash algorithm: ${manifest.algorithm}`);
+            this.logger.info(`\n📁 Total local files: ${analysis.localFiles}`);
+            if (remoteFiles) this.logger.info(`📁 Total remote files: ${remoteFiles.length}`);
+            else this.logger.info(`📁 Total remote files (from hash): ${Object.keys(manifest.files).length}`);
+            if (analysis.toUpload.length > 0) {
+                this.logger.info(`\n📤 FILES TO UPLOAD (${analysis.toUpload.length}):`);
+                analysis.toUpload.forEach((file) => {
+                    const mode = this.mapping.permissionMatcher.match(file)?.mode;
+                    this.logger.info(`   ↗️  ${file}${mode ? ` (${mode})` : ''}`);
+                });
+            }
+            const toChmod = Object.keys(analysis.toChmod);
+            if (toChmod.length > 0) {
+                this.logger.info(`\n🔐 PERMISSIONS TO APPLY (${toChmod.length}):`);
+                toChmod.forEach((target) => this.logger.info(`   🔐 ${target} → ${analysis.toChmod[target]}`));
+            }
+            const oversized = Object.keys(analysis.oversized);
+            if (oversized.length > 0) {
+                this.logger.info(`\n📏 OVERSIZED FILES SKIPPED (${oversized.length}, over ${formatBytes(this.config.max_file_size as number)}):`);
+                oversized.forEach((file) => this.logger.info(`   📏 ${file} (${formatBytes(analysis.oversized[file])})`));
+            }
+            const excludedLocal = Object.keys(analysis.excludedLocal);
+            if (excludedLocal.length > 0) {
+                this.logger.info(`\n🚫 LOCAL FILES EXCLUDED (${excludedLocal.length}):`);
+                excludedLocal.forEach((file) => this.logger.info(`   ⛔ ${file} (${analysis.excludedLocal[file]})`));
+            }
+            if (analysis.toRemove.length > 0) {
+                this.logger.info(`\n🗑️  FILES TO REMOVE (${analysis.toRemove.length}):`);
+                analysis.toRemove.forEach((file) => this.logger.info(`   ❌ ${file}`));
+            }
+            const preservedFiles = Object.keys(analysis.preserved);
+            if (preservedFiles.length > 0) {
+                this.logger.info(`\n🛡️  FILES PRESERVED (${preservedFiles.length}):`);
+                preservedFiles.forEach((file) => this.logger.info(`   🔒 ${file} (${analysis.preserved[file]})`));
+            }
+            const excludedRemote = Object.keys(analysis.excludedRemote);
+            if (excludedRemote.length > 0) {
+                this.logger.info(`\n🚫 REMOTE FILES EXCLUDED, LEFT UNTOUCHED (${excludedRemote.length}):`);
+                excludedRemote.forEach((file) => this.logger.info(`   ⛔ ${file} (${analysis.excludedRemote[file]})`));
+            }
+        }
+        if (plans.length > 1) {
+            const toUpload = plans.reduce((sum, plan) => sum + plan.analysis.toUpload.length, 0);
+            const toRemove = plans.reduce((sum, plan) => sum + plan.analysis.toRemove.length, 0);
+            this.logger.info('\n' + '-'.repeat(60));
+            this.logger.info(`🗂️  ${plans.length} mappings: ${toUpload} files to upload, ${toRemove} to remove`);
+        }
+        this.logger.info('\n' + '='.repeat(60));
+    }
+
+    // Print final summary
+    private printSummary(): void {
+        const duration = Date.now() - this.startTime;
+        const seconds = (duration / 1000).toFixed(2);
+
+        this.logger.info('✨ DEPLOY COMPLETED ✨');
+        this.logger.info(`📤 Uploaded: ${this.stats.uploaded.length} files`);
+        this.logger.info(`🗑️  Removed: ${this.stats.removed.length} files`);
+        this.logger.info(`✅ Unchanged: ${this.stats.unchanged.length} files`);
+        const chmodded = this.stats.files.filter((file) => file.action === 'chmod' && (file.status === 'success' || file.status === 'dry_run')).length;
+        if (chmodded > 0) this.logger.info(`🔐 Permissions changed: ${chmodded} paths`);
+        this.logger.info(`❌ Errors: ${this.stats.errors.length} files`);
+        this.logger.info(`⏱️  Total execution time: ${seconds}s`);
+    }
+
+    // Push the files below the changed paths ('' for everything) whose hash differs from the manifest
+    private async syncChanges(changedPaths: string[], manifest: Manifest, localFiles: Record<string, LocalFile>): Promise<void> {
+        // max_errors counts per batch, so one bad batch does not end the watch
+        this.failedFiles = 0;
+        this.abortError = undefined;
+        // A changed .deployignore can include or exclude anything, so rebuild the filter and rescan
+        if (changedPaths.includes(FtpDeploy.IGNORE_FILE_NAME)) {
+            this.filter = this.createFilter();
+            changedPaths = [''];
+        }
+        const roots = changedPaths.includes('') ? [''] : changedPaths;
+        const isBelow = (file: string) => roots.some((root) => root === '' || file === root || file.startsWith(root + '/'));
+        // Known files below a changed path that are no longer found locally count as deleted
+        const candidates = new Set([...Object.keys(localFiles), ...Object.keys(manifest.files)].filter(isBelow));
+        const localPaths: string[] = [];
+        for (const root of roots) {
+            const fullPath = path.join(this.config.local_dir, root);
+            if (!fs.existsSync(fullPath)) continue;
+            if (fs.statSync(fullPath).isDirectory()) {
+                if (root === '' || !this.filter.canPrune(root)) localPaths.push(...this.getLocalFiles(fullPath));
+            } else if (this.filter.check(root).included) localPaths.push(fullPath);
+        }
+        const { accepted, oversized } = this.findOversized(localPaths);
+        this.rejectOversized(oversized);
+        Object.entries(oversized).forEach(([file, size]) => this.logger.warn(`⚠️ Skipping ${file}, ${formatBytes(size)} exceeds max_file_size`));
+        const found = await this.hashLocalFiles(accepted, manifest, false);
+        await this.transformFiles(found, manifest);
+        this.migrateAlgorithm(manifest, found);
+        this.ensuredDirs.clear();
+        Object.assign(localFiles, found);
+        const changedFiles = Object.keys(found).filter((relativePath) => manifest.files[relativePath]?.hash !== found[relativePath].hash);
+        const failedBefore = this.failedUploads;
+        let changes = 0;
+        for (const phase of this.groupByPhase(changedFiles)) {
+            if (this.failedUploads > failedBefore) {
+                phase.files.forEach((relativePath) => this.skipFile(relativePath, 'upload', found[relativePath].size));
+                continue;
+            }
+            for (const relativePath of phase.files) {
+                if (this.abortError) throw this.abortError;
+                await this.uploadFile(found[relativePath].path, relativePath, found[relativePath].hash, manifest, manifest.files[relativePath] !== undefined);
+                changes++;
+            }
+        }
+        const modeChanges = this.getModeChanges(found, manifest, changedFiles);
+        await this.applyModes(modeChanges, manifest, failedBefore);
+        changes += Object.keys(modeChanges).length;
+        let removed = 0;
+        for (const relativePath of candidates) {
+            if (found[relativePath] || oversized[relativePath]) continue;
+            delete localFiles[relativePath];
+            const entry = manifest.files[relativePath];
+            // Excluded files are left on the server just like in a full deploy
+            if (!this.config.clean_remote_files || !entry || entry.preserved || !this.filter.check(relativePath).included) continue;
+            if (this.shouldPreserve(relativePath)) continue;
+            if (this.failedUploads > failedBefore) {
+                this.skipFile(relativePath, 'remove', entry.size);
+                continue;
+            }
+            await this.removeFile(relativePath, manifest, undefined, entry.size);
+            removed++;
+        }
+        if (removed > 0) await this.removeEmptyDirectories(this.targetDir);
+        changes += removed;
+        if (changes === 0) {
+            this.logger.debug('⏸️  No changes to deploy');
+            return;
+        }
+        if (!this.config.dry_run) await this.saveManifest(manifest);
+        this.logger.info(`✅ Synced ${changes} changes at ${new Date().toLocaleTimeString()}`);
+    }
+
+    // Take the lock of every mapping's remote_dir
+    private async acquireLocks(command: string, readOnly?: boolean): Promise<void> {
+        for (const state of this.mappings) {
+            this.switchMapping(state);
+            await this.acquireLock(command, readOnly);
+        }
+    }
+
+    // Release the locks of every mapping
+    private async releaseLocks(): Promise<void> {
+        for (const state of this.mappings) {
+            this.switchMapping(state);
+            await this.releaseLock();
+        }
+    }
+
+    // Scan and compare the current mapping, clearing its destination first when configured
+    private async analyzeMapping(): Promise<MappingPlan> {
+        // Redirect all writes to the staging directory in atomic mode
+        if (this.config.atomic) await this.prepareStaging();
+        this.filter = this.createFilter();
+        this.excludedLocal = {};
+        this.excludedRemote = {};
+        await this.beginRelease();
+        if (this.mappings.length > 1) this.logger.info(`\n🗂️  Analyzing ${this.config.local_dir} → ${this.config.remote_dir}`);
+        // Local files are scanned first, so oversized ones fail the deploy before the destination is cleared
+        this.logger.info('\n📂 Scanning local files...');
+        const { accepted, oversized } = this.findOversized(this.getLocalFiles(this.config.local_dir));
+        this.logger.info(`✅ Found ${accepted.length + Object.keys(oversized).length} local files`);
+        this.rejectOversized(oversized);
+        // Clear destination if enabled (ignores clean_remote_files)
+        if (this.config.clear_destination) {
+            await this.enableMaintenance();
+            this.enterPhase('clear');
+            await this.clearDestination();
+            this.enterPhase('analysis');
+        }
+        this.logger.info('\n📥 Reading remote hash file...');
+        const manifest = await this.loadManifest();
+        const localFiles = await this.hashLocalFiles(accepted, manifest);
+        await this.transformFiles(localFiles, manifest);
+        this.migrateAlgorithm(manifest, localFiles);
+        let remoteInfos: Record<string, RemoteFileInfo> | undefined;
+        if (this.config.verify && !this.config.clear_destination) {
+            this.enterPhase('verify');
+            this.logger.info('\n🔎 Verifying remote files against the hash manifest...');
+            remoteInfos = await this.getRemoteFileInfos(this.targetDir, this.targetDir, true, true);
+            const drift = await this.verifyRemote(manifest, localFiles, remoteInfos);
+            // Forget drifted entries so the upload below repairs them
+            for (const file of [...drift.missing, ...drift.modified.map((entry) => entry.path)]) delete manifest.files[file];
+            this.enterPhase('analysis');
+        }
+        // Scan remote files if clean mode is enabled (and not clearing destination)
+        // Staging must mirror the release exactly, so atomic mode always scans it
+        let remoteFiles: string[] | undefined;
+        if ((this.config.clean_remote_files || this.config.atomic) && !this.config.clear_destination) {
+            this.logger.info(`\n📂 Scanning remote files (${this.config.atomic ? 'atomic' : 'clean'} mode enabled)...`);
+            remoteInfos = remoteInfos || await this.getRemoteFileInfos(this.targetDir);
+            remoteFiles = Object.keys(remoteInfos);
+            this.logger.info(`✅ Found ${remoteFiles.length} remote files`);
+        }
+        // Live files that are not part of the local build must survive the swap
+        const carriedFiles = this.config.atomic ? await this.carryOverFromLive(localFiles) : new Set<string>();
+        const analysis = this.buildAnalysis(localFiles, manifest, oversized, remoteFiles, carriedFiles);
+        this.notify('analysis', analysis);
+        return { state: this.mapping, manifest, localFiles, remoteInfos, remoteFiles, carriedFiles, analysis };
+    }
+
+    // Upload changed files phase by phase, backing up the remote copies they replace
+    private async uploadPhases(changedFiles: string[], localFiles: Record<string, LocalFile>, manifest: Manifest, existingFiles: Set<string>): Promise<void> {
+        // A phase only starts when every earlier one succeeded, so entry points never go out without their assets
+        const phases = this.groupByPhase(changedFiles);
+        for (const [index, phase] of phases.entries()) {
+            if (this.failedUploads > 0) {
+                this.logger.warn(`\n⏭️  Skipping upload phase ${index + 1}/${phases.length} (${phase.label}) after failed uploads`);
+                phase.files.forEach((relativePath) => this.skipFile(relativePath, 'upload', localFiles[relativePath].size));
+                continue;
+            }
+            if (phases.length > 1) this.logger.info(`\n📦 Upload phase ${index + 1}/${phases.length} (${phase.label}): ${phase.files.length} files`);
+            await this.runPool(phase.files, async (relativePath, connection) => {
+                const overwrites = manifest.files[relativePath] !== undefined || existingFiles.has(relativePath);
+                await this.uploadFile(localFiles[relativePath].path, relativePath, localFiles[relativePath].hash, manifest, overwrites, connection);
+                await this.checkpoint(manifest, connection);
+            });
+        }
+    }
+
+    // Remove orphaned remote files, unless uploads failed
+    private async removeOrphans(filesToRemove: string[], manifest: Manifest, remoteInfos?: Record<string, RemoteFileInfo>): Promise<void> {
+        if (filesToRemove.length > 0 && this.failedUploads > 0) {
+            // Removed files may still be referenced by the previous versions that failed to upload
+            this.logger.warn(`\n⏭️  Skipping removal of ${filesToRemove.length} orphaned remote files after failed uploads`);
+            filesToRemove.forEach((fileToRemove) => this.skipFile(fileToRemove, 'remove', remoteInfos?.[fileToRemove]?.size));
+        } else if (filesToRemove.length > 0) {
+            const action = this.config.dry_run ? 'Would clean up' : 'Cleaning up';
+            this.logger.info(`\n🧹 ${action} ${filesToRemove.length} orphaned remote files...`);
+            await this.runPool(filesToRemove, async (fileToRemove, connection) => {
+                await this.removeFile(fileToRemove, manifest, connection, remoteInfos?.[fileToRemove]?.size);
+                await this.checkpoint(manifest, connection);
+            });
+        } else this.logger.info('\n✅ No remote files need to be removed');
+    }
+
+    // Save the final hash file and record the release
+    private async finalizeManifest(manifest: Manifest): Promise<void> {
+        this.enterPhase('finalize');
+        if (this.config.dry_run) {
+            this.logger.info('\n💾 Would update remote hash file');
+        } else {
+            this.logger.info('\n💾 Updating remote hash file...');
+            await this.saveManifest(manifest);
+            this.logger.info('✅ Remote hash file updated');
+        }
+        await this.finishRelease(manifest);
+    }
+
+    // Upload, clean up and finalize the current mapping as analyzed
+    private async applyMapping(plan: MappingPlan): Promise<void> {
+        const { manifest, localFiles, remoteInfos, remoteFiles, carriedFiles } = plan;
+        const cleanEnabled = this.config.clean_remote_files || this.config.atomic;
+        if (this.mappings.length > 1) this.logger.info(`\n🗂️  Deploying ${this.config.local_dir} → ${this.config.remote_dir}`);
+        this.enterPhase('upload');
+        // Process local files
+        const existingFiles = new Set(Object.keys(remoteInfos || {}));
+        const changedFiles: string[] = [];
+        for (const [relativePath, localFile] of Object.entries(localFiles)) {
+            const entry = manifest.files[relativePath];
+            if (entry?.hash === localFile.hash) {
+                // Files whose permission rule changed are reported by their chmod instead
+                if (plan.analysis.toChmod[relativePath]) continue;
+                this.logger.info(`⏸️  Unchanged: ${relativePath}`);
+                // Entries migrated from the flat format learn their size from the identical local copy
+                if (entry.size === undefined) entry.size = localFile.size;
+                this.stats.unchanged.push(this.qualifyPath(relativePath));
+                this.stats.files.push({
+                    path: this.qualifyPath(relativePath),
+                    action: 'unchanged',
+                    status: 'success',
+                    size: localFile.size,
+                    hash: localFile.hash,
+                    duration: 0,
+                    retries: 0
+                });
+            } else changedFiles.push(relativePath);
+        }
+        for (const [relativePath, size] of Object.entries(plan.analysis.oversized)) this.skipFile(relativePath, 'upload', size, 'exceeds max_file_size');
+        await this.uploadPhases(changedFiles, localFiles, manifest, existingFiles);
+        await this.applyModes(plan.analysis.toChmod, manifest);
+        // Clean remote files
+        this.enterPhase('remove');
+        if (cleanEnabled && !this.config.clear_destination && remoteFiles) {
+            const orphanedFiles = remoteFiles.filter((remotePath) => !localFiles[remotePath] && !plan.analysis.oversized[remotePath] && !carriedFiles.has(remotePath));
+            this.logger.info(`\n🔍 Found ${orphanedFiles.length} orphaned remote files`);
+            if (this.config.preserve && this.config.preserve.length > 0) {
+                this.logger.info(`🛡️  Checking preserve patterns: ${this.config.preserve.join(', ')}`);
+            }
+            
+            const filesToRemove = orphanedFiles.filter((remotePath) => !this.shouldPreserve(remotePath));
+            
+            // Preserve files should keep their hash entries
+            const preservedFiles = orphanedFiles.filter((remotePath) => this.shouldPreserve(remotePath));
+            if (preservedFiles.length > 0) {
+                this.logger.info(`🛡️  Preserved ${preservedFiles.length} files from deletion`);
+                // Keep the hash entries for preserved files
+                preservedFiles.forEach(file => {
+                    if (!manifest.files[file]) {
+                        // If we don't have an entry, mark the file preserved to keep it tracked
+                        manifest.files[file] = { preserved: true };
                     }
-                } else console.log('\n✅ No remote files need to be removed');
-                // Remove empty directories after cleaning files
-                if (filesToRemove.length > 0) {
-                    const dirAction = this.config.dry_run ? 'Would remove' : 'Removing';
-                    console.log(`\n📁 ${dirAction} empty directories...`);
-                    await this.removeEmptyDirectories(this.config.remote_dir);
+                });
+            }
+            
+            await this.removeOrphans(filesToRemove, manifest, remoteInfos);
+            // Remove empty directories after cleaning files
+            if (filesToRemove.length > 0 && this.failedUploads === 0) {
+                const dirAction = this.config.dry_run ? 'Would remove' : 'Removing';
+                this.logger.info(`\n📁 ${dirAction} empty directories...`);
+                await this.removeEmptyDirectories(this.targetDir);
+            }
+        }
+        await this.finalizeManifest(manifest);
+        // Swap staging into place only when every file made it
+        if (this.config.atomic) {
+            this.enterPhase('swap');
+            if (this.config.dry_run) this.logger.info(`\n🔀 Would swap staging into ${this.config.remote_dir}`);
+            else if (this.stats.errors.length > 0) {
+                this.logger.warn(`\n⚠️  Skipping swap due to ${this.stats.errors.length} errors, live release left untouched`);
+            } else await this.swapStaging();
+        }
+    }
+
+    // Refuse modes whose changes cannot be listed ahead in a plan
+    private checkPlannable(): void {
+        if (this.mappings.some((state) => state.config.atomic || state.config.clear_destination)) {
+            throw new Error('Plans cannot be made or applied in atomic or clear_destination mode');
+        }
+    }
+
+    // Describe the changes of an analyzed mapping for a plan file
+    private toPlannedMapping(plan: MappingPlan): PlannedMapping {
+        const { analysis, manifest, localFiles, remoteFiles } = plan;
+        const removals = new Set(analysis.toRemove);
+        // Files staying on the server, excluded ones included, keep their directories
+        const remaining = [
+            ...(remoteFiles || []).filter((file) => !removals.has(file)),
+            ...analysis.toUpload,
+            ...Object.keys(analysis.excludedRemote)
+        ];
+        const directoryRemovals = getParentDirectories(analysis.toRemove)
+            .filter((dir) => !remaining.some((file) => file.startsWith(`${dir}/`)))
+            .filter((dir) => !this.getPreserveRule(dir, true) && this.filter.check(dir, true).included)
+            .reverse();
+        return {
+            local_dir: this.config.local_dir,
+            remote_dir: this.config.remote_dir,
+            manifest_digest: this.manifestDigest,
+            ...(manifest.updated_at && { manifest_updated_at: manifest.updated_at }),
+            uploads: analysis.toUpload.map((file) => ({ path: file, hash: localFiles[file].hash, size: localFiles[file].size })),
+            removals: analysis.toRemove,
+            directory_removals: directoryRemovals,
+            permissions: analysis.toChmod
+        };
+    }
+
+    // Re-read the hash file and local files of the current mapping, refusing a plan made against other versions
+    private async checkPlannedMapping(planned: PlannedMapping): Promise<{ manifest: Manifest; localFiles: Record<string, LocalFile> }> {
+        this.filter = this.createFilter();
+        this.excludedLocal = {};
+        this.excludedRemote = {};
+        await this.beginRelease();
+        if (this.mappings.length > 1) this.logger.info(`\n🗂️  Checking ${this.config.local_dir} → ${this.config.remote_dir}`);
+        this.logger.info('\n📥 Reading remote hash file...');
+        const manifest = await this.loadManifest();
+        if (this.manifestDigest !== planned.manifest_digest) {
+            const since = planned.manifest_updated_at ? ` (planned against the version of ${planned.manifest_updated_at})` : '';
+            throw Object.assign(new Error(`The remote hash file of ${this.config.remote_dir} changed since the plan was made${since}, make a new plan`), { code: 'PLAN_STALE' });
+        }
+        this.logger.info('\n📂 Scanning local files...');
+        const localFiles = await this.hashLocalFiles(this.getLocalFiles(this.config.local_dir), manifest);
+        await this.transformFiles(localFiles, manifest);
+        this.migrateAlgorithm(manifest, localFiles);
+        // The files going up must be the ones that were reviewed
+        const changed = planned.uploads.filter((upload) => localFiles[upload.path]?.hash !== upload.hash).map((upload) => upload.path);
+        if (changed.length > 0) {
+            throw Object.assign(new Error(`Local files changed since the plan was made: ${changed.join(', ')}, make a new plan`), { code: 'PLAN_STALE' });
+        }
+        this.logger.info(`✅ Plan matches ${this.config.remote_dir}: ${planned.uploads.length} uploads, ${planned.removals.length} removals`);
+        return { manifest, localFiles };
+    }
+
+    // Remove the directories a plan expects to be empty, keeping any that gained content since
+    private async removePlannedDirectories(directories: string[]): Promise<void> {
+        if (directories.length === 0) return;
+        this.logger.info(`\n📁 ${this.config.dry_run ? 'Would remove' : 'Removing'} empty directories...`);
+        for (const dir of directories) {
+            if (this.config.dry_run) {
+                this.logger.info(`📁 Would remove empty directory: ${dir}`);
+                continue;
+            }
+            const remoteDir = path.posix.join(this.targetDir, dir);
+            try {
+                const list = await this.executeWithRetry(() => this.client.list(remoteDir), `List ${remoteDir}`);
+                if (list.some((item) => item.name !== '.' && item.name !== '..')) {
+                    this.logger.warn(`⚠️  Keeping directory ${dir}, it is no longer empty`);
+                    continue;
                 }
+                await this.executeWithRetry(async () => {
+                    await this.client.removeDir(remoteDir);
+                }, `Remove directory ${dir}`);
+                this.logger.info(`📁 Removed empty directory: ${dir}`);
+            } catch (err) {
+                this.logger.warn(`⚠️ Could not remove directory ${dir}: ${err}`);
             }
-            // Update remote hash file
+        }
+    }
+
+    // Upload, chmod and remove exactly what a plan lists for the current mapping
+    private async applyPlannedMapping(planned: PlannedMapping, manifest: Manifest, localFiles: Record<string, LocalFile>): Promise<void> {
+        if (this.mappings.length > 1) this.logger.info(`\n🗂️  Applying ${this.config.local_dir} → ${this.config.remote_dir}`);
+        this.enterPhase('upload');
+        await this.uploadPhases(planned.uploads.map((upload) => upload.path), localFiles, manifest, new Set());
+        await this.applyModes(planned.permissions, manifest);
+        this.enterPhase('remove');
+        await this.removeOrphans(planned.removals, manifest);
+        if (planned.removals.length > 0 && this.failedUploads === 0) await this.removePlannedDirectories(planned.directory_removals);
+        await this.finalizeManifest(manifest);
+    }
+
+    // Main deploy method: analyze every mapping, then deploy them one by one over the same connections
+    async deploy(): Promise<DeployStats> {
+        this.startTime = Date.now();
+        this.lastCheckpoint = this.startTime;
+        this.ensuredDirs.clear();
+        this.enterPhase('connect');
+        // Outlives the try block so a critical error can still checkpoint the mapping being deployed
+        let active: MappingPlan | undefined;
+        try {
+            this.checkMappings();
+            this.logger.info(`🔌 Connecting to ${this.client.label} server...`);
+            await this.client.connect();
+            this.logger.info(`✅ Connected to ${this.client.label} server.`);
+            this.notify('connect', { protocol: this.client.label, host: this.config.host });
+            await this.acquireLocks('deploy');
+            await this.runHooks('before');
+            this.enterPhase('analysis');
+            const plans: MappingPlan[] = [];
+            for (const state of this.mappings) {
+                this.switchMapping(state);
+                plans.push(await this.analyzeMapping());
+            }
+            // Show initial analysis
+            this.printAnalysis(plans);
+            this.logger.info('\n🚀 Starting deployment process...\n');
+            if (plans.some((plan) => plan.analysis.toUpload.length > 0 || plan.analysis.toRemove.length > 0)) {
+                await this.enableMaintenance();
+            }
+            for (const plan of plans) {
+                this.switchMapping(plan.state);
+                active = plan;
+                await this.applyMapping(plan);
+            }
+            this.printSummary();
+            return this.stats;
+        } catch (err) {
+            this.logger.error('\n💥 Critical Error:', err);
+            this.recordError(err, `Critical error: ${err}`, undefined, false);
+            // Keep what was transferred so the next run resumes from here
+            if (active && this.stats.files.some((file) => file.status === 'success' && file.action !== 'unchanged')) {
+                await this.checkpoint(active.manifest, this.connections[0], true);
+            }
+            if (active) await this.recordInterruptedRelease(active.manifest);
+            return this.stats;
+        } finally {
+            this.removeTransformDir();
+            await this.disableMaintenance();
+            await this.runCompletionHooks();
+            await this.releaseLocks();
+            this.finalizeStats();
+            this.notify('complete', this.stats);
+            this.closeConnections();
+            this.logger.info('🔌 Connection closed.');
+        }
+    }
+
+    // Analyze every mapping without changing anything and list its changes as a plan for apply()
+    async plan(): Promise<DeployPlan> {
+        this.startTime = Date.now();
+        this.enterPhase('connect');
+        try {
+            this.checkMappings();
+            this.checkPlannable();
+            this.logger.info(`🔌 Connecting to ${this.client.label} server...`);
+            await this.client.connect();
+            this.logger.info(`✅ Connected to ${this.client.label} server.`);
+            this.notify('connect', { protocol: this.client.label, host: this.config.host });
+            await this.acquireLocks('plan', true);
+            this.enterPhase('analysis');
+            const plans: MappingPlan[] = [];
+            const mappings: PlannedMapping[] = [];
+            for (const state of this.mappings) {
+                this.switchMapping(state);
+                const plan = await this.analyzeMapping();
+                plans.push(plan);
+                mappings.push(this.toPlannedMapping(plan));
+            }
+            // A plan missing changes that could not be analyzed must not be approved
+            if (this.stats.errors.length > 0) throw new Error(`Could not analyze the deploy: ${this.stats.errors[0]}`);
+            this.printAnalysis(plans);
+            return {
+                tool: 'deploy-ftp',
+                version: PLAN_VERSION,
+                created_at: new Date().toISOString(),
+                protocol: this.client.label,
+                ...(this.config.host && { host: this.config.host }),
+                mappings
+            };
+        } finally {
+            this.removeTransformDir();
+            await this.releaseLocks();
+            this.closeConnections();
+            this.logger.info('🔌 Connection closed.');
+        }
+    }
+
+    // Execute a plan made by plan(), refusing it when the remote hash file or a planned local file changed since
+    async apply(plan: DeployPlan): Promise<DeployStats> {
+        this.startTime = Date.now();
+        this.lastCheckpoint = this.startTime;
+        this.ensuredDirs.clear();
+        this.enterPhase('connect');
+        // Outlives the try block so a critical error can still checkpoint the mapping being applied
+        let active: Manifest | undefined;
+        try {
+            this.checkMappings();
+            this.checkPlannable();
+            const { mappings } = parsePlan(plan);
+            if (plan.protocol !== this.client.label || plan.host !== this.config.host) {
+                throw new Error(`The plan was made for ${plan.protocol} server ${plan.host}, not ${this.client.label} server ${this.config.host}`);
+            }
+            if (mappings.length !== this.mappings.length || mappings.some((mapping, index) =>
+                mapping.local_dir !== this.mappings[index].config.local_dir || mapping.remote_dir !== this.mappings[index].config.remote_dir)) {
+                throw new Error('The plan was made for other local and remote directories than the configured ones');
+            }
+            this.logger.info(`🔌 Connecting to ${this.client.label} server...`);
+            await this.client.connect();
+            this.logger.info(`✅ Connected to ${this.client.label} server.`);
+            this.notify('connect', { protocol: this.client.label, host: this.config.host });
+            await this.acquireLocks('apply');
+            await this.runHooks('before');
+            // Every mapping is checked before the first one changes
+            this.enterPhase('analysis');
+            const checked: { manifest: Manifest; localFiles: Record<string, LocalFile> }[] = [];
+            for (const [index, state] of this.mappings.entries()) {
+                this.switchMapping(state);
+                checked.push(await this.checkPlannedMapping(mappings[index]));
+            }
+            this.logger.info(`\n🚀 Applying plan of ${plan.created_at}...\n`);
+            if (mappings.some((mapping) => mapping.uploads.length > 0 || mapping.removals.length > 0)) {
+                await this.enableMaintenance();
+            }
+            for (const [index, state] of this.mappings.entries()) {
+                this.switchMapping(state);
+                active = checked[index].manifest;
+                await this.applyPlannedMapping(mappings[index], checked[index].manifest, checked[index].localFiles);
+            }
+            this.printSummary();
+            return this.stats;
+        } catch (err) {
+            this.logger.error('\n💥 Critical Error:', err);
+            this.recordError(err, `Critical error: ${err}`, undefined, false);
+            // Keep what was transferred so a new plan starts from here
+            if (active && this.stats.files.some((file) => file.status === 'success' && file.action !== 'unchanged')) {
+                await this.checkpoint(active, this.connections[0], true);
+            }
+            if (active) await this.recordInterruptedRelease(active);
+            return this.stats;
+        } finally {
+            this.removeTransformDir();
+            await this.disableMaintenance();
+            await this.runCompletionHooks();
+            await this.releaseLocks();
+            this.finalizeStats();
+            this.notify('complete', this.stats);
+            this.closeConnections();
+            this.logger.info('🔌 Connection closed.');
+        }
+    }
+
+    // Check the remote files against the hash manifest without changing anything
+    async verify(): Promise<DeployStats> {
+        this.startTime = Date.now();
+        this.enterPhase('connect');
+        try {
+            this.logger.info(`🔌 Connecting to ${this.client.label} server...`);
+            await this.client.connect();
+            this.logger.info(`✅ Connected to ${this.client.label} server.`);
+            this.notify('connect', { protocol: this.client.label, host: this.config.host });
+            await this.acquireLocks('verify', true);
+            this.enterPhase('verify');
+            for (const state of this.mappings) {
+                this.switchMapping(state);
+                this.filter = this.createFilter();
+                if (this.mappings.length > 1) this.logger.info(`\n🗂️  Verifying ${this.config.local_dir} → ${this.config.remote_dir}`);
+                this.logger.info('\n📥 Reading remote hash file...');
+                const manifest = await this.loadManifest();
+                const localFiles = await this.hashLocalFiles(this.getLocalFiles(this.config.local_dir), manifest);
+                this.logger.info('\n🔎 Verifying remote files against the hash manifest...');
+                await this.verifyRemote(manifest, localFiles, await this.getRemoteFileInfos(this.targetDir, this.targetDir, true, true));
+            }
+            return this.stats;
+        } catch (err) {
+            this.logger.error('\n💥 Critical Error:', err);
+            this.recordError(err, `Critical error: ${err}`, undefined, false);
+            return this.stats;
+        } finally {
+            await this.releaseLocks();
+            this.finalizeStats();
+            this.notify('complete', this.stats);
+            this.closeConnections();
+            this.logger.info('🔌 Connection closed.');
+        }
+    }
+
+    // Mirror remote_dir into local_dir: download new and changed files and, in clean mode, delete local files gone from the server
+    async pull(): Promise<DeployStats> {
+        this.startTime = Date.now();
+        const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-ftp-'));
+        this.enterPhase('connect');
+        try {
+            this.logger.info(`🔌 Connecting to ${this.client.label} server...`);
+            await this.client.connect();
+            this.logger.info(`✅ Connected to ${this.client.label} server.`);
+            this.notify('connect', { protocol: this.client.label, host: this.config.host });
+            await this.acquireLocks('pull', true);
+            for (const state of this.mappings) {
+                this.switchMapping(state);
+                this.enterPhase('analysis');
+                this.filter = this.createFilter();
+                if (this.mappings.length > 1) this.logger.info(`\n🗂️  Pulling ${this.config.remote_dir} → ${this.config.local_dir}`);
+                this.logger.info('\n📥 Reading remote hash file...');
+                const manifest = await this.loadManifest();
+                const localPaths = fs.existsSync(this.config.local_dir) ? this.getLocalFiles(this.config.local_dir) : [];
+                const localFiles = await this.hashLocalFiles(localPaths, manifest);
+                const remoteInfos = await this.getRemoteFileInfos(this.targetDir, this.targetDir, true, true);
+                // Files that look changed get downloaded anyway, so their remote copy is hashed to be sure
+                const modified = await this.findModified(manifest, localFiles, remoteInfos, tempDir, true);
+                const toDownload = Object.keys(remoteInfos).filter((file) => !localFiles[file] || modified.includes(file)).sort();
+                // Preserve rules protect local copies too, e.g. uploads that only exist locally
+                const toDelete = this.config.clean_remote_files ?
+                    Object.keys(localFiles).filter((file) => !remoteInfos[file] && !this.getPreserveRule(file)).sort() : [];
+                this.logger.info(`\n📊 ${Object.keys(remoteInfos).length} remote files: ${toDownload.length} to download, ${toDelete.length} to delete locally`);
+                for (const file of Object.keys(localFiles).filter((file) => remoteInfos[file] && !modified.includes(file))) {
+                    this.stats.unchanged.push(this.qualifyPath(file));
+                    this.stats.files.push({ path: this.qualifyPath(file), action: 'unchanged', status: 'success', size: localFiles[file].size, duration: 0, retries: 0 });
+                }
+                this.enterPhase('download');
+                await this.runPool(toDownload, async (file, connection) => {
+                    await this.downloadFile(file, remoteInfos[file], tempDir, connection);
+                });
+                this.enterPhase('remove');
+                toDelete.forEach((file) => this.deleteLocalFile(file, localFiles[file].size));
+            }
+            this.logger.info('\n✨ PULL COMPLETED ✨');
+            this.logger.info(`📥 Downloaded: ${this.stats.downloaded.length} files`);
+            this.logger.info(`🗑️  Deleted: ${this.stats.removed.length} files`);
+            this.logger.info(`✅ Unchanged: ${this.stats.unchanged.length} files`);
+            this.logger.info(`❌ Errors: ${this.stats.errors.length} files`);
+            return this.stats;
+        } catch (err) {
+            this.logger.error('\n💥 Critical Error:', err);
+            this.recordError(err, `Critical error: ${err}`, undefined, false);
+            return this.stats;
+        } finally {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+            await this.releaseLocks();
+            this.finalizeStats();
+            this.notify('complete', this.stats);
+            this.closeConnections();
+            this.logger.info('🔌 Connection closed.');
+        }
+    }
+
+    // Compare local_dir with remote_dir without changing either, with unified diffs of modified text files on request
+    async diff(content = false): Promise<DeployStats> {
+        this.startTime = Date.now();
+        const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-ftp-'));
+        this.enterPhase('connect');
+        try {
+            this.logger.info(`🔌 Connecting to ${this.client.label} server...`);
+            await this.client.connect();
+            this.logger.info(`✅ Connected to ${this.client.label} server.`);
+            this.notify('connect', { protocol: this.client.label, host: this.config.host });
+            await this.acquireLocks('diff', true);
+            this.enterPhase('analysis');
+            for (const state of this.mappings) {
+                this.switchMapping(state);
+                this.filter = this.createFilter();
+                if (this.mappings.length > 1) this.logger.info(`\n🗂️  Comparing ${this.config.local_dir} ↔ ${this.config.remote_dir}`);
+                this.logger.info('\n📥 Reading remote hash file...');
+                const manifest = await this.loadManifest();
+                const localPaths = fs.existsSync(this.config.local_dir) ? this.getLocalFiles(this.config.local_dir) : [];
+                const localFiles = await this.hashLocalFiles(localPaths, manifest);
+                await this.transformFiles(localFiles, manifest);
+                const remoteInfos = await this.getRemoteFileInfos(this.targetDir, this.targetDir, true, true);
+                const modified = await this.findModified(manifest, localFiles, remoteInfos, tempDir, content);
+                const report: DiffReport = {
+                    localOnly: Object.keys(localFiles).filter((file) => !remoteInfos[file]).sort(),
+                    remoteOnly: Object.keys(remoteInfos).filter((file) => !localFiles[file]).sort(),
+                    modified,
+                    unchanged: Object.keys(localFiles).filter((file) => remoteInfos[file]).length - modified.length,
+                    ...(content && { patches: await this.getPatches(modified, localFiles, tempDir) })
+                };
+                // Several mappings add up to one report of paths qualified with their remote_dir
+                const qualified: DiffReport = {
+                    localOnly: report.localOnly.map((file) => this.qualifyPath(file)),
+                    remoteOnly: report.remoteOnly.map((file) => this.qualifyPath(file)),
+                    modified: report.modified.map((file) => this.qualifyPath(file)),
+                    unchanged: report.unchanged,
+                    ...(report.patches && {
+                        patches: Object.fromEntries(Object.entries(report.patches).map(([file, patch]) => [this.qualifyPath(file), patch]))
+                    })
+                };
+                const previous = this.stats.diff;
+                this.stats.diff = previous ? {
+                    localOnly: [...previous.localOnly, ...qualified.localOnly],
+                    remoteOnly: [...previous.remoteOnly, ...qualified.remoteOnly],
+                    modified: [...previous.modified, ...qualified.modified],
+                    unchanged: previous.unchanged + qualified.unchanged,
+                    ...((previous.patches || qualified.patches) && { patches: { ...previous.patches, ...qualified.patches } })
+                } : qualified;
+                this.notify('diff', qualified);
+                this.printDiff(report);
+            }
+            return this.stats;
+        } catch (err) {
+            this.logger.error('\n💥 Critical Error:', err);
+            this.recordError(err, `Critical error: ${err}`, undefined, false);
+            return this.stats;
+        } finally {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+            this.removeTransformDir();
+            await this.releaseLocks();
+            this.finalizeStats();
+            this.notify('complete', this.stats);
+            this.closeConnections();
+            this.logger.info('🔌 Connection closed.');
+        }
+    }
+
+    // Deploy local_dir, then keep pushing changes over one connection until the signal aborts
+    async watch(signal?: AbortSignal): Promise<DeployStats> {
+        this.startTime = Date.now();
+        this.enterPhase('connect');
+        try {
+            if (this.config.atomic || this.config.clear_destination || this.mappings.length > 1) {
+                throw new Error('Watch mode cannot be combined with atomic, clear_destination or mappings');
+            }
+            this.logger.info(`🔌 Connecting to ${this.client.label} server...`);
+            await this.client.connect();
+            this.logger.info(`✅ Connected to ${this.client.label} server.`);
+            this.notify('connect', { protocol: this.client.label, host: this.config.host });
+            await this.acquireLock('watch');
+            this.enterPhase('upload');
+            this.filter = this.createFilter();
+            this.logger.info('\n📥 Reading remote hash file...');
+            const manifest = await this.loadManifest();
+            const localFiles: Record<string, LocalFile> = {};
+            this.logger.info('\n🚀 Deploying current state...');
+            await this.syncChanges([''], manifest, localFiles);
+            // Batches run one after another, a failed batch is reported and watching goes on
+            let queue = Promise.resolve();
+            const watcher = new DirectoryWatcher(this.config.local_dir, this.config.watch_debounce ?? 500, (changedPaths) => {
+                queue = queue.then(() => this.syncChanges(changedPaths, manifest, localFiles)).catch((err) => {
+                    this.recordError(err, `Failed to sync changes: ${err}`);
+                });
+            });
+            watcher.start();
+            // Keep the lock fresh while idle, through the queue so it never interleaves with a batch
+            const lockRefresh = setInterval(() => {
+                queue = queue.then(() => this.refreshLock()).catch((err) => {
+                    this.logger.warn(`⚠️ Could not refresh lock file: ${err}`);
+                });
+            }, Math.max(1000, (this.config.lock_timeout ?? 0) / 2));
+            this.logger.info(`\n👀 Watching ${this.config.local_dir} for changes...`);
+            await new Promise<void>((resolve) => {
+                if (!signal) return;
+                if (signal.aborted) resolve();
+                else signal.addEventListener('abort', () => resolve(), { once: true });
+            });
+            watcher.close();
+            clearInterval(lockRefresh);
+            await queue;
+            this.logger.info('\n👋 Stopped watching');
+            this.printSummary();
+            return this.stats;
+        } catch (err) {
+            this.logger.error('\n💥 Critical Error:', err);
+            this.recordError(err, `Critical error: ${err}`, undefined, false);
+            return this.stats;
+        } finally {
+            this.removeTransformDir();
+            await this.releaseLock();
+            this.finalizeStats();
+            this.notify('complete', this.stats);
+            this.closeConnections();
+            this.logger.info('🔌 Connection closed.');
+        }
+    }
+
+    // List retained releases, oldest first
+    async listReleases(): Promise<ReleaseRecord[]> {
+        if (this.mappings.length > 1) throw new Error('Release history is kept per remote_dir, list it without mappings');
+        try {
+            await this.client.connect();
+            return await this.loadReleases();
+        } finally {
+            this.closeConnections();
+        }
+    }
+
+    // Restore the remote directory to the state recorded by a previous release
+    async rollback(releaseId?: number): Promise<DeployStats> {
+        this.startTime = Date.now();
+        this.ensuredDirs.clear();
+        if (this.config.atomic) throw new Error('Release history is not kept in atomic mode');
+        if (this.mappings.length > 1) throw new Error('Rollback works on one remote_dir, run it without mappings');
+        const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-ftp-'));
+        this.enterPhase('connect');
+        try {
+            this.logger.info(`🔌 Connecting to ${this.client.label} server...`);
+            await this.client.connect();
+            this.logger.info(`✅ Connected to ${this.client.label} server.`);
+            this.notify('connect', { protocol: this.client.label, host: this.config.host });
+            await this.acquireLock('rollback');
+            this.enterPhase('analysis');
+            const releases = await this.loadReleases();
+            const targetId = releaseId ?? releases[releases.length - 2]?.id;
+            const target = releases.find((release) => release.id === targetId);
+            if (!target) {
+                throw new Error(releaseId === undefined ? 'No previous release to roll back to' : `Release #${releaseId} not found`);
+            }
+            this.logger.info(`\n⏪ Rolling back to release #${target.id} (${target.timestamp})`);
+            this.logger.info('\n📥 Reading remote hash file...');
+            const manifest = await this.loadManifest();
+            const newer = releases.filter((release) => release.id > target.id);
+            const sameAlgorithm = target.manifest.algorithm === manifest.algorithm;
+            // Files whose content differs from the target release, ignoring preserved entries
+            const toRestore = Object.keys(target.manifest.files).filter((file) => {
+                const wanted = target.manifest.files[file];
+                const current = manifest.files[file];
+                if (wanted.preserved) return false;
+                if (sameAlgorithm && wanted.hash && current?.hash) return wanted.hash !== current.hash;
+                // Hashes in different algorithms cannot be compared, a later backup shows the file changed
+                return !current || newer.some((release) => release.backups.includes(file));
+            });
+            const toRemove = Object.keys(manifest.files).filter((file) =>
+                !manifest.files[file].preserved && target.manifest.files[file] === undefined);
+            this.logger.info(`📤 Files to restore: ${toRestore.length}`);
+            this.logger.info(`🗑️  Files to remove: ${toRemove.length}`);
+            await this.beginRelease(target.id);
+            this.enterPhase('rollback');
+            // The earliest later release that backed up a file holds its content as of the target release
+            for (const file of toRestore) {
+                const source = newer.find((release) => release.backups.includes(file));
+                if (!source) {
+                    const errorMsg = `No backup of ${file} found for release #${target.id}`;
+                    this.recordError(Object.assign(new Error(errorMsg), { code: 'BACKUP_MISSING' }), errorMsg, file);
+                    continue;
+                }
+                const localFile = path.join(tempDir, String(source.id), ...file.split('/'));
+                try {
+                    fs.mkdirSync(path.dirname(localFile), { recursive: true });
+                    await this.executeWithRetry(async () => {
+                        await this.client.downloadTo(localFile, path.posix.join(this.getReleaseDir(source.id), 'files', file));
+                    }, `Download backup of ${file}`);
+                    const wanted = target.manifest.files[file].hash;
+                    if (wanted && await this.calcHash(localFile, target.manifest.algorithm) !== wanted) {
+                        throw Object.assign(new Error('backup hash mismatch'), { code: 'BACKUP_MISMATCH' });
+                    }
+                } catch (err) {
+                    this.recordError(err, `Failed to fetch backup of ${file}: ${err}`, file);
+                    continue;
+                }
+                const hash = await this.calcHash(localFile, manifest.algorithm);
+                await this.uploadFile(localFile, file, hash, manifest, manifest.files[file] !== undefined);
+            }
+            for (const file of toRemove) {
+                await this.removeFile(file, manifest);
+            }
+            this.enterPhase('finalize');
             if (this.config.dry_run) {
-                console.log('\n💾 Would update remote hash file');
+                this.logger.info('\n💾 Would update remote hash file');
             } else {
-                console.log('\n💾 Updating remote hash file...');
-                await this.saveRemoteHashes(remoteHashes);
-                console.log('✅ Remote hash file updated');
+                this.logger.info('\n💾 Updating remote hash file...');
+                await this.saveManifest(manifest);
+                this.logger.info('✅ Remote hash file updated');
             }
+            await this.finishRelease(manifest);
             this.printSummary();
             return this.stats;
         } catch (err) {
-            console.error('\n💥 Critical Error:', err);
-            this.stats.errors.push(`Critical error: ${err}`);
+            this.logger.error('\n💥 Critical Error:', err);
+            this.recordError(err, `Critical error: ${err}`, undefined, false);
             return this.stats;
         } finally {
-            this.client.close();
-            console.log('🔌 Connection closed.');
+            await this.releaseLock();
+            this.finalizeStats();
+            this.notify('complete', this.stats);
+            fs.rmSync(tempDir, { recursive: true, force: true });
+            this.closeConnections();
+            this.logger.info('🔌 Connection closed.');
         }
     }
 }
 
+export { loadConfig, validateConfig, interpolateEnv, readNetrc, applyNetrc, ConfigError, ConfigFile, LoadConfigOptions, LoadedConfig } from './config';
+export { Manifest, ManifestEntry, HashAlgorithm, HASH_ALGORITHMS, DEFAULT_HASH_ALGORITHM, MANIFEST_VERSION, parseManifest, hashFile } from './manifest';
+export { PermissionRules } from './permissions';
+export { TransformRule, CompressionFormat, COMPRESSION_FORMATS } from './transforms';
+export { BandwidthLimiter, parseByteSize, formatBytes } from './limits';
+export { DeployPlan, PlannedMapping, PlannedUpload, PLAN_VERSION, parsePlan, readPlan, writePlan } from './plan';
+export { DeployHooks, Hook, HookStage, HOOK_STAGES, CommandHook, SiteHook, HealthCheckHook, WebhookHook } from './hooks';
+export { Logger, LogLevel, LOG_LEVELS, ConsoleLogger, ConsoleLoggerOptions, silentLogger, stripEmoji } from './logger';
+export { writeReport, ReportFormat, ReportContext, REPORT_FORMATS } from './report';
+export { TestFtpServer, TestFtpServerOptions, TestSftpServer, TestSftpServerOptions, TestFtpFault, TestFtpCommand } from './testing';
+export { Transport, TransportOptions, TransportLog, ProgressCallback, RemoteFileInfo, Protocol, FtpTransport, SftpTransport, createTransport, ErrorCategory, classifyError } from './transports';
+
 // Export default for convenience
 export default FtpDeploy;
@@ -0,0 +1,63 @@
+import { Readable, Transform, pipeline } from 'stream';
+
+const SIZE_UNITS: Record<string, number> = { '': 1, K: 1024, M: 1024 ** 2, G: 1024 ** 3 };
+
+// Parse a byte count such as 1048576, 500K, 2M or 1.5GB, undefined when it is not one
+export function parseByteSize(value: string): number | undefined {
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([KMG]?)i?B?$/i);
+    if (!match) return undefined;
+    return Math.round(parseFloat(match[1]) * SIZE_UNITS[match[2].toUpperCase()]);
+}
+
+// Human-readable byte count, e.g. 1.5 MB
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB', 'TB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+// Budget of bytes per second shared by every stream it throttles, so parallel uploads add up to the limit
+export class BandwidthLimiter {
+    private readonly bytesPerSecond: number;
+    // Moment the bytes handed out so far have been sent at the limit
+    private nextFree = 0;
+
+    constructor(bytesPerSecond: number) {
+        this.bytesPerSecond = bytesPerSecond;
+    }
+
+    // Milliseconds to wait before sending this many more bytes
+    private reserve(bytes: number): number {
+        const now = Date.now();
+        const start = Math.max(now, this.nextFree);
+        this.nextFree = start + (bytes / this.bytesPerSecond) * 1000;
+        return start - now;
+    }
+
+    // Pass a chunk on in slices of a tenth of a second, so a slow limit still sends smoothly
+    private async pass(stream: Transform, chunk: Buffer): Promise<void> {
+        const slice = Math.max(1024, Math.floor(this.bytesPerSecond / 10));
+        for (let offset = 0; offset < chunk.length; offset += slice) {
+            const part = chunk.subarray(offset, offset + slice);
+            const delay = this.reserve(part.length);
+            if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay));
+            stream.push(part);
+        }
+    }
+
+    // Pipe a source through the limit; errors of the source destroy the returned stream
+    throttle(source: Readable): Readable {
+        const limiter = new Transform({
+            transform: (chunk: Buffer, _encoding, callback) => {
+                this.pass(limiter, chunk).then(() => callback(), callback);
+            }
+        });
+        return pipeline(source, limiter, () => undefined);
+    }
+}
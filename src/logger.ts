@@ -0,0 +1,62 @@
+export type LogLevel = 'silent' | 'error' | 'warn' | 'info' | 'debug';
+
+export const LOG_LEVELS: LogLevel[] = ['silent', 'error', 'warn', 'info', 'debug'];
+
+export interface Logger {
+    error(message: string, ...args: unknown[]): void;
+    warn(message: string, ...args: unknown[]): void;
+    info(message: string, ...args: unknown[]): void;
+    debug(message: string, ...args: unknown[]): void;
+}
+
+export interface ConsoleLoggerOptions {
+    level?: LogLevel;
+    emoji?: boolean;
+}
+
+// Emoji with an optional variation selector and the spacing that follows them
+const EMOJI_PATTERN = /[\p{Extended_Pictographic}\u2190-\u21FF]\uFE0F?\s*/gu;
+
+// Remove emoji from a message, keeping its leading line breaks and indentation
+export function stripEmoji(message: string): string {
+    return message.replace(EMOJI_PATTERN, '').replace(/[ \t]+$/gm, '');
+}
+
+// Logger writing to the console, filtered by level and optionally without emoji
+export class ConsoleLogger implements Logger {
+    private level: number;
+    private emoji: boolean;
+
+    constructor(options: ConsoleLoggerOptions = {}) {
+        this.level = LOG_LEVELS.indexOf(options.level || 'info');
+        this.emoji = options.emoji !== false;
+    }
+
+    private format(message: string): string {
+        return this.emoji ? message : stripEmoji(message);
+    }
+
+    error(message: string, ...args: unknown[]): void {
+        if (this.level >= 1) console.error(this.format(message), ...args);
+    }
+
+    warn(message: string, ...args: unknown[]): void {
+        if (this.level >= 2) console.log(this.format(message), ...args);
+    }
+
+    info(message: string, ...args: unknown[]): void {
+        if (this.level >= 3) console.log(this.format(message), ...args);
+    }
+
+    debug(message: string, ...args: unknown[]): void {
+        if (this.level >= 4) console.log(this.format(message), ...args);
+    }
+}
+
+// Logger that discards everything, for embedding without output
+export const silentLogger: Logger = {
+    error: () => undefined,
+    warn: () => undefined,
+    info: () => undefined,
+    debug: () => undefined
+};
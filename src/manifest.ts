@@ -0,0 +1,161 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import type { ChecksumAlgorithm } from './transports';
+
+export type HashAlgorithm = ChecksumAlgorithm;
+
+export const HASH_ALGORITHMS: HashAlgorithm[] = ['md5', 'sha1', 'sha256'];
+
+// Algorithm of manifests created from scratch
+export const DEFAULT_HASH_ALGORITHM: HashAlgorithm = 'sha256';
+
+export const MANIFEST_VERSION = 2;
+
+// Files up to this size are hashed in one read, larger ones are streamed
+const STREAM_THRESHOLD = 1024 * 1024;
+
+export interface ManifestEntry {
+    // Missing for preserved files and entries whose hash could not be carried over
+    hash?: string;
+    size?: number;
+    // Local modification time (ms) of the uploaded file
+    mtime?: number;
+    uploaded_at?: string;
+    preserved?: boolean;
+    // Octal mode applied by a permission rule
+    mode?: string;
+}
+
+export interface ManifestDirectory {
+    mode?: string;
+}
+
+// Content of .deploy_ftp_hash.json: what was uploaded, keyed by relative path
+export interface Manifest {
+    version: number;
+    algorithm: HashAlgorithm;
+    updated_at?: string;
+    // Set on manifests saved mid-deploy, a completed deploy writes it without
+    checkpoint?: boolean;
+    // Hashes of large uploads in progress by path, so an interrupted one can resume
+    pending?: Record<string, string>;
+    files: Record<string, ManifestEntry>;
+    // Directories whose mode was set by a permission rule
+    directories?: Record<string, ManifestDirectory>;
+}
+
+export function createManifest(algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM): Manifest {
+    return { version: MANIFEST_VERSION, algorithm, files: {} };
+}
+
+// Check if parsed JSON is the flat `{ path: md5 }` format written before manifests were versioned
+export function isLegacyManifest(data: unknown): boolean {
+    return typeof data === 'object' && data !== null && !('version' in data) &&
+        Object.values(data).every((value) => typeof value === 'string');
+}
+
+// Read a manifest, migrating the flat format where 'preserved' stood in for a hash
+export function parseManifest(data: unknown): Manifest {
+    if (isLegacyManifest(data)) {
+        const manifest = createManifest('md5');
+        for (const [file, hash] of Object.entries(data as Record<string, string>)) {
+            manifest.files[file] = hash === 'preserved' ? { preserved: true } : { hash };
+        }
+        return manifest;
+    }
+    const manifest = data as Manifest;
+    if (typeof manifest?.version !== 'number' || typeof manifest.files !== 'object' || !HASH_ALGORITHMS.includes(manifest.algorithm)) {
+        throw new Error('Unrecognized hash manifest format');
+    }
+    if (manifest.version > MANIFEST_VERSION) {
+        throw new Error(`Hash manifest version ${manifest.version} was written by a newer deploy-ftp, upgrade to deploy to this server`);
+    }
+    return manifest;
+}
+
+// Hash a file with one or more algorithms in a single read
+export async function hashFile<A extends HashAlgorithm>(filePath: string, algorithms: A[]): Promise<Record<A, string>> {
+    const hashes = algorithms.map((algorithm) => crypto.createHash(algorithm));
+    if (fs.statSync(filePath).size <= STREAM_THRESHOLD) {
+        const data = fs.readFileSync(filePath);
+        hashes.forEach((hash) => hash.update(data));
+    } else {
+        await new Promise<void>((resolve, reject) => {
+            fs.createReadStream(filePath)
+                .on('data', (chunk) => hashes.forEach((hash) => hash.update(chunk)))
+                .on('end', resolve)
+                .on('error', reject);
+        });
+    }
+    const result = {} as Record<A, string>;
+    algorithms.forEach((algorithm, index) => {
+        result[algorithm] = hashes[index].digest('hex');
+    });
+    return result;
+}
+
+// Default cache location, one file per local directory under $XDG_CACHE_HOME or ~/.cache
+export function defaultCacheFile(localDir: string): string {
+    const cacheHome = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+    const key = crypto.createHash('sha1').update(path.resolve(localDir)).digest('hex').slice(0, 16);
+    return path.join(cacheHome, 'deploy-ftp', `${key}.json`);
+}
+
+interface CacheEntry {
+    size: number;
+    mtime: number;
+    hashes: Partial<Record<HashAlgorithm, string>>;
+}
+
+// Local hashes keyed on size and mtime, so unchanged files are not read again
+export class HashCache {
+    private file?: string;
+    private entries: Record<string, CacheEntry> = {};
+    private dirty = false;
+
+    constructor(file?: string) {
+        this.file = file;
+        if (!file || !fs.existsSync(file)) return;
+        try {
+            this.entries = JSON.parse(fs.readFileSync(file, 'utf8')).files || {};
+        } catch {
+            // A corrupt cache only costs a rehash
+            this.entries = {};
+        }
+    }
+
+    // Hash a file, reusing cached hashes while its size and mtime are unchanged
+    async hash<A extends HashAlgorithm>(key: string, filePath: string, algorithms: A[]): Promise<{ hashes: Record<A, string>; size: number; mtime: number }> {
+        const stat = fs.statSync(filePath);
+        const cached = this.entries[key];
+        if (cached && cached.size === stat.size && cached.mtime === stat.mtimeMs && algorithms.every((algorithm) => cached.hashes[algorithm])) {
+            return { hashes: cached.hashes as Record<A, string>, size: stat.size, mtime: stat.mtimeMs };
+        }
+        const hashes = await hashFile(filePath, algorithms);
+        const previous = cached && cached.size === stat.size && cached.mtime === stat.mtimeMs ? cached.hashes : {};
+        this.entries[key] = { size: stat.size, mtime: stat.mtimeMs, hashes: { ...previous, ...hashes } };
+        this.dirty = true;
+        return { hashes, size: stat.size, mtime: stat.mtimeMs };
+    }
+
+    // Write the cache if anything changed, dropping entries of files not in keys when given
+    save(keys?: string[]): void {
+        const live = new Set(keys);
+        for (const key of keys ? Object.keys(this.entries) : []) {
+            if (!live.has(key)) {
+                delete this.entries[key];
+                this.dirty = true;
+            }
+        }
+        if (!this.file || !this.dirty) return;
+        try {
+            fs.mkdirSync(path.dirname(this.file), { recursive: true });
+            fs.writeFileSync(this.file, JSON.stringify({ version: 1, files: this.entries }));
+            this.dirty = false;
+        } catch {
+            // The cache is an optimization, a read-only home directory must not fail the deploy
+        }
+    }
+}
@@ -0,0 +1,61 @@
+import { PathMatcher } from './filters';
+
+// Glob → octal mode, e.g. `{ "**/*.php": "644", "bin/*": "755", "*/": "755" }`.
+// Patterns ending in `/` set the mode of directories, all others of files.
+export type PermissionRules = Record<string, string>;
+
+export interface ModeMatch {
+    mode: string;
+    rule: string;
+}
+
+const MODE_PATTERN = /^[0-7]{3,4}$/;
+
+interface CompiledPermission {
+    mode: string;
+    matcher: PathMatcher;
+    description: string;
+}
+
+// Check that every rule maps a glob to an octal mode, returning one message per invalid rule
+export function validatePermissions(rules: Record<string, unknown>, prefix = 'permissions'): string[] {
+    return Object.entries(rules)
+        .filter(([, mode]) => typeof mode !== 'string' || !MODE_PATTERN.test(mode))
+        .map(([pattern, mode]) => `${prefix}["${pattern}"]: expected an octal mode such as "644", got ${JSON.stringify(mode)}`);
+}
+
+// Resolves the mode of remote files and directories from permission rules, the last matching rule wins
+export class PermissionMatcher {
+    private files: CompiledPermission[] = [];
+    private directories: CompiledPermission[] = [];
+
+    constructor(rules: PermissionRules = {}) {
+        for (const [pattern, mode] of Object.entries(rules)) {
+            const rule = { mode, matcher: new PathMatcher([{ pattern, source: 'permissions' }]), description: `permissions "${pattern}"` };
+            (pattern.trim().endsWith('/') ? this.directories : this.files).push(rule);
+        }
+    }
+
+    get isEmpty(): boolean {
+        return this.files.length === 0 && this.directories.length === 0;
+    }
+
+    // Mode for a path relative to remote_dir, if any rule sets one
+    match(relativePath: string, isDirectory = false): ModeMatch | undefined {
+        const rules = isDirectory ? this.directories : this.files;
+        for (let i = rules.length - 1; i >= 0; i--) {
+            if (rules[i].matcher.match(relativePath, isDirectory).matched) return { mode: rules[i].mode, rule: rules[i].description };
+        }
+        return undefined;
+    }
+}
+
+// Parent directories of relative file paths, parents before their children
+export function getParentDirectories(files: string[]): string[] {
+    const directories = new Set<string>();
+    for (const file of files) {
+        const parts = file.split('/');
+        for (let i = 1; i < parts.length; i++) directories.add(parts.slice(0, i).join('/'));
+    }
+    return [...directories].sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b));
+}
@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+import { validatePermissions } from './permissions';
+
+// Bumped when a plan file changes in a way older versions cannot apply
+export const PLAN_VERSION = 1;
+
+export interface PlannedUpload {
+    path: string;
+    // Hash of the file to upload, in the algorithm of the remote manifest
+    hash: string;
+    size: number;
+}
+
+// The changes to one mapping and the remote hash file they were computed against
+export interface PlannedMapping {
+    local_dir: string;
+    remote_dir: string;
+    // SHA-256 of the remote hash file read while planning, null when there was none
+    manifest_digest: string | null;
+    manifest_updated_at?: string;
+    uploads: PlannedUpload[];
+    removals: string[];
+    // Directories the removals leave empty, deepest first
+    directory_removals: string[];
+    // Modes to apply without uploading, to files and to directories (with a trailing `/`)
+    permissions: Record<string, string>;
+}
+
+// Content of a plan file, written by `deploy-ftp plan` and executed by `deploy-ftp apply`
+export interface DeployPlan {
+    tool: 'deploy-ftp';
+    version: number;
+    created_at: string;
+    protocol: string;
+    host?: string;
+    mappings: PlannedMapping[];
+}
+
+// Check if a value is a non-null object whose properties can be inspected
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+// Check if a value is a path inside remote_dir: relative and without `..` segments,
+// so a tampered plan cannot write or delete anything outside the mapping
+function isRelativePath(value: unknown): value is string {
+    return typeof value === 'string' && value !== '' && !path.posix.isAbsolute(value) && !value.split('/').includes('..');
+}
+
+// Check if a value is an array of relative paths
+function isRelativePathArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(isRelativePath);
+}
+
+// Check the shape of one planned upload
+function isPlannedUpload(value: unknown): value is PlannedUpload {
+    return isRecord(value) && isRelativePath(value.path) && typeof value.hash === 'string' &&
+        typeof value.size === 'number' && Number.isFinite(value.size) && value.size >= 0;
+}
+
+// Check that planned modes target relative paths (directories with a trailing `/`) with valid octal modes
+function isPlannedPermissions(value: unknown): value is Record<string, string> {
+    return isRecord(value) && Object.keys(value).every((target) => isRelativePath(target.replace(/\/$/, ''))) &&
+        validatePermissions(value).length === 0;
+}
+
+// Check the shape of one mapping of a parsed plan
+function isPlannedMapping(value: unknown): value is PlannedMapping {
+    return isRecord(value) &&
+        typeof value.local_dir === 'string' && typeof value.remote_dir === 'string' &&
+        (value.manifest_digest === null || typeof value.manifest_digest === 'string') &&
+        Array.isArray(value.uploads) && value.uploads.every(isPlannedUpload) &&
+        isRelativePathArray(value.removals) && isRelativePathArray(value.directory_removals) &&
+        isPlannedPermissions(value.permissions);
+}
+
+// Check the shape of a parsed plan, whatever its version
+function isDeployPlan(value: unknown): value is DeployPlan {
+    return isRecord(value) && value.tool === 'deploy-ftp' && typeof value.version === 'number' &&
+        Array.isArray(value.mappings) && value.mappings.every(isPlannedMapping);
+}
+
+// Read a plan, refusing files this version cannot apply
+export function parsePlan(data: unknown): DeployPlan {
+    if (!isDeployPlan(data)) {
+        throw new Error('Unrecognized plan file format');
+    }
+    if (data.version > PLAN_VERSION) {
+        throw new Error(`Plan file version ${data.version} was written by a newer deploy-ftp, upgrade to apply it`);
+    }
+    return data;
+}
+
+export function readPlan(filePath: string): DeployPlan {
+    return parsePlan(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+}
+
+export function writePlan(plan: DeployPlan, filePath: string): void {
+    fs.writeFileSync(filePath, JSON.stringify(plan, null, 2));
+}
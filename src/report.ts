@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+import type { DeployStats, FileResult } from './index';
+
+export type ReportFormat = 'json' | 'junit';
+
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'junit'];
+
+export interface ReportContext {
+    command: string;
+    local_dir?: string;
+    remote_dir: string;
+    dry_run?: boolean;
+}
+
+// Escape text for use in XML attributes and content
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+// Convert milliseconds to the seconds JUnit expects
+function seconds(ms: number): string {
+    return (ms / 1000).toFixed(3);
+}
+
+// Serialize stats as a JSON report
+function toJson(stats: DeployStats, context: ReportContext): string {
+    return JSON.stringify({
+        tool: 'deploy-ftp',
+        ...context,
+        success: stats.errors.length === 0,
+        totals: stats.totals,
+        timings: stats.timings,
+        files: stats.files,
+        ...(stats.drift && { drift: stats.drift }),
+        ...(stats.diff && { diff: stats.diff }),
+        errors: stats.failures
+    }, null, 2);
+}
+
+// Render one file result as a JUnit test case
+function toTestCase(file: FileResult): string {
+    const open = `    <testcase classname="${file.action}" name="${escapeXml(file.path)}" time="${seconds(file.duration)}"`;
+    if (file.status === 'failed' && file.error) {
+        const details = `phase: ${file.error.phase}\nretries: ${file.retries}\n${file.error.message}`;
+        return `${open}>\n      <failure type="${escapeXml(file.error.code)}" message="${escapeXml(file.error.message)}">${escapeXml(details)}</failure>\n    </testcase>`;
+    }
+    if (file.action === 'unchanged') return `${open}>\n      <skipped message="unchanged"/>\n    </testcase>`;
+    if (file.status === 'skipped') return `${open}>\n      <skipped message="${escapeXml(file.reason || 'not attempted after an earlier failure')}"/>\n    </testcase>`;
+    return `${open}/>`;
+}
+
+// Serialize stats as a JUnit XML report, one test case per file
+function toJUnit(stats: DeployStats, context: ReportContext): string {
+    const cases = stats.files.map(toTestCase);
+    // Errors not tied to a file (connection, hash file, swap) get their own test case
+    const general = stats.failures.filter((error) => error.path === undefined).map((error) =>
+        `    <testcase classname="${error.phase}" name="${escapeXml(context.command)}" time="0">\n` +
+        `      <error type="${escapeXml(error.code)}" message="${escapeXml(error.message)}"/>\n    </testcase>`);
+    const tests = cases.length + general.length;
+    const failures = stats.files.filter((file) => file.status === 'failed').length;
+    const skipped = stats.files.filter((file) => file.action === 'unchanged' || file.status === 'skipped').length;
+    const name = escapeXml(`deploy-ftp ${context.command} ${context.remote_dir}`);
+    const time = seconds(stats.timings.duration);
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="deploy-ftp" tests="${tests}" failures="${failures}" errors="${general.length}" time="${time}">`,
+        `  <testsuite name="${name}" tests="${tests}" failures="${failures}" errors="${general.length}" skipped="${skipped}" time="${time}" timestamp="${stats.timings.startedAt}">`,
+        ...cases,
+        ...general,
+        '  </testsuite>',
+        '</testsuites>',
+        ''
+    ].join('\n');
+}
+
+// Write a machine-readable deploy report for CI
+export function writeReport(stats: DeployStats, filePath: string, format: ReportFormat, context: ReportContext): void {
+    const content = format === 'junit' ? toJUnit(stats, context) : toJson(stats, context);
+    fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    fs.writeFileSync(filePath, content);
+}
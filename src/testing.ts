@@ -0,0 +1,728 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+import { pipeline } from 'stream/promises';
+import { Server as SshServer, Connection as SshConnection, SFTPWrapper, Attributes, utils as sshUtils } from 'ssh2';
+import type { FtpDeployConfig } from './index';
+
+export interface TestFtpServerOptions {
+    user?: string;
+    password?: string;
+    // PEM key and certificate; when given the server accepts AUTH TLS (explicit FTPS)
+    tls?: { key: string | Buffer; cert: string | Buffer };
+    // Directory served as the FTP root (default: a new temporary directory, removed by stop())
+    root?: string;
+}
+
+export interface TestSftpServerOptions {
+    user?: string;
+    password?: string;
+    // Directory served as the SFTP root (default: a new temporary directory, removed by stop())
+    root?: string;
+}
+
+// A failure injected into the next commands matching it
+export interface TestFtpFault {
+    // FTP command such as STOR, RETR, LIST, DELE or RNFR, or SFTP request such as OPEN, WRITE, READDIR or RENAME
+    command: string;
+    // Only commands whose argument contains this string or matches this pattern
+    path?: string | RegExp;
+    // Answer with this FTP reply code or SFTP status code instead of running the command;
+    // without one the connection is dropped
+    reply?: number;
+    // Number of matching commands affected (default: 1)
+    times?: number;
+}
+
+// A command received by the server, for assertions on what a deploy did
+export interface TestFtpCommand {
+    // Control connection (SSH connection for SFTP) it arrived on, counted from 1
+    connection: number;
+    command: string;
+    argument: string;
+}
+
+// What a session needs from the server it belongs to
+interface SessionHost {
+    root: string;
+    user: string;
+    password: string;
+    secureContext?: tls.SecureContext;
+    // Record a command and return the fault to inject for it, if any
+    receive(command: TestFtpCommand): TestFtpFault | undefined;
+}
+
+// Commands allowed before logging in
+const PUBLIC_COMMANDS = ['USER', 'PASS', 'AUTH', 'PBSZ', 'PROT', 'FEAT', 'SYST', 'OPTS', 'NOOP', 'QUIT'];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Milliseconds a transfer command waits for the client to open its data connection
+const DATA_CONNECTION_TIMEOUT = 10000;
+
+// One line of a Unix-style LIST reply, the format basic-ftp parses
+function formatListEntry(name: string, stat: fs.Stats): string {
+    const permissions = [6, 3, 0].map((shift) => {
+        const bits = (stat.mode >> shift) & 7;
+        return (bits & 4 ? 'r' : '-') + (bits & 2 ? 'w' : '-') + (bits & 1 ? 'x' : '-');
+    }).join('');
+    const date = stat.mtime;
+    const time = `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+    const day = String(date.getDate()).padStart(2, ' ');
+    return `${stat.isDirectory() ? 'd' : '-'}${permissions} 1 ftp ftp ${stat.size} ${MONTHS[date.getMonth()]} ${day} ${time} ${name}`;
+}
+
+// Modification time as the YYYYMMDDHHMMSS an MDTM reply carries
+function formatMdtm(date: Date): string {
+    return date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+// One control connection, running its commands one after another
+class FtpSession {
+    private host: SessionHost;
+    private id: number;
+    private socket: net.Socket;
+    private buffer = '';
+    private queue: Promise<void> = Promise.resolve();
+    private cwd = '/';
+    private user?: string;
+    private loggedIn = false;
+    private protectData = false;
+    private renameFrom?: string;
+    private passive?: net.Server;
+    private dataSocket?: Promise<net.Socket>;
+    private closed = false;
+
+    constructor(host: SessionHost, id: number, socket: net.Socket) {
+        this.host = host;
+        this.id = id;
+        this.socket = socket;
+        this.attach(socket);
+        this.reply(220, 'deploy-ftp test server ready');
+    }
+
+    close(): void {
+        if (this.closed) return;
+        this.closed = true;
+        this.passive?.close();
+        this.socket.destroy();
+    }
+
+    // Read commands from a socket, again after it was upgraded to TLS
+    private attach(socket: net.Socket): void {
+        socket.on('data', (chunk: Buffer) => {
+            this.buffer += chunk.toString('utf8');
+            let end: number;
+            while ((end = this.buffer.indexOf('\n')) >= 0) {
+                const line = this.buffer.slice(0, end).replace(/\r$/, '');
+                this.buffer = this.buffer.slice(end + 1);
+                if (line) this.queue = this.queue.then(() => this.handle(line)).catch(() => this.close());
+            }
+        });
+        socket.on('error', () => this.close());
+        socket.on('close', () => this.close());
+    }
+
+    private reply(code: number, message: string): void {
+        if (!this.closed) this.socket.write(`${code} ${message}\r\n`);
+    }
+
+    // Map a path of the client onto the served directory, never above its root
+    private resolve(argument: string): { virtual: string; local: string } {
+        const virtual = path.posix.resolve(this.cwd, argument || '.');
+        return { virtual, local: path.join(this.host.root, ...virtual.split('/').filter(Boolean)) };
+    }
+
+    private async handle(line: string): Promise<void> {
+        const space = line.indexOf(' ');
+        const command = (space < 0 ? line : line.slice(0, space)).toUpperCase();
+        const argument = space < 0 ? '' : line.slice(space + 1);
+        const fault = this.host.receive({ connection: this.id, command, argument });
+        if (fault) {
+            if (fault.reply) this.reply(fault.reply, `Injected failure of ${command}`);
+            else this.close();
+            return;
+        }
+        if (!this.loggedIn && !PUBLIC_COMMANDS.includes(command)) return this.reply(530, 'Not logged in');
+        try {
+            await this.run(command, argument);
+        } catch (err: any) {
+            this.reply(550, err?.message || String(err));
+        }
+    }
+
+    private async run(command: string, argument: string): Promise<void> {
+        switch (command) {
+            case 'USER':
+                this.user = argument;
+                return this.reply(331, 'Password required');
+            case 'PASS':
+                this.loggedIn = this.user === this.host.user && argument === this.host.password;
+                return this.loggedIn ? this.reply(230, 'Logged in') : this.reply(530, 'Login incorrect');
+            case 'AUTH':
+                return this.upgrade(argument);
+            case 'PBSZ':
+                return this.reply(200, 'PBSZ=0');
+            case 'PROT':
+                this.protectData = argument.toUpperCase() === 'P';
+                return this.reply(200, `Protection level ${argument}`);
+            case 'FEAT': {
+                const features = ['EPSV', 'PASV', 'SIZE', 'MDTM', 'UTF8', ...(this.host.secureContext ? ['AUTH TLS', 'PBSZ', 'PROT'] : [])];
+                this.socket.write(`211-Features:\r\n${features.map((feature) => ` ${feature}\r\n`).join('')}211 End\r\n`);
+                return;
+            }
+            case 'SYST':
+                return this.reply(215, 'UNIX Type: L8');
+            case 'OPTS':
+            case 'TYPE':
+            case 'STRU':
+            case 'MODE':
+            case 'NOOP':
+                return this.reply(200, `${command} ok`);
+            case 'QUIT':
+                this.reply(221, 'Bye');
+                this.socket.end();
+                return;
+            case 'PWD':
+                return this.reply(257, `"${this.cwd}" is the current directory`);
+            case 'CWD': {
+                const target = this.resolve(argument);
+                if (!fs.existsSync(target.local) || !fs.statSync(target.local).isDirectory()) return this.reply(550, `${argument}: No such directory`);
+                this.cwd = target.virtual;
+                return this.reply(250, `Directory changed to ${this.cwd}`);
+            }
+            case 'CDUP':
+                this.cwd = path.posix.dirname(this.cwd);
+                return this.reply(250, `Directory changed to ${this.cwd}`);
+            case 'EPSV':
+                return this.reply(229, `Entering Extended Passive Mode (|||${await this.openPassive()}|)`);
+            case 'PASV': {
+                const port = await this.openPassive();
+                return this.reply(227, `Entering Passive Mode (127,0,0,1,${port >> 8},${port & 255})`);
+            }
+            case 'LIST':
+                return this.list(argument.replace(/^-\S*\s*/, ''));
+            case 'RETR': {
+                const { local } = this.resolve(argument);
+                if (!fs.existsSync(local) || !fs.statSync(local).isFile()) return this.reply(550, `${argument}: No such file`);
+                return this.transfer((socket) => pipeline(fs.createReadStream(local), socket));
+            }
+            case 'STOR':
+            case 'APPE': {
+                const { local } = this.resolve(argument);
+                if (!fs.existsSync(path.dirname(local))) return this.reply(550, `${argument}: No such directory`);
+                return this.transfer((socket) => pipeline(socket, fs.createWriteStream(local, { flags: command === 'APPE' ? 'a' : 'w' })));
+            }
+            case 'SIZE': {
+                const { local } = this.resolve(argument);
+                if (!fs.existsSync(local) || !fs.statSync(local).isFile()) return this.reply(550, `${argument}: No such file`);
+                return this.reply(213, String(fs.statSync(local).size));
+            }
+            case 'MDTM': {
+                const { local } = this.resolve(argument);
+                if (!fs.existsSync(local)) return this.reply(550, `${argument}: No such file`);
+                return this.reply(213, formatMdtm(fs.statSync(local).mtime));
+            }
+            case 'DELE': {
+                const { local } = this.resolve(argument);
+                if (!fs.existsSync(local) || !fs.statSync(local).isFile()) return this.reply(550, `${argument}: No such file`);
+                fs.unlinkSync(local);
+                return this.reply(250, 'File deleted');
+            }
+            case 'MKD': {
+                const target = this.resolve(argument);
+                fs.mkdirSync(target.local);
+                return this.reply(257, `"${target.virtual}" created`);
+            }
+            case 'RMD':
+                fs.rmdirSync(this.resolve(argument).local);
+                return this.reply(250, 'Directory removed');
+            case 'RNFR': {
+                const { local } = this.resolve(argument);
+                if (!fs.existsSync(local)) return this.reply(550, `${argument}: No such file or directory`);
+                this.renameFrom = local;
+                return this.reply(350, 'Ready for RNTO');
+            }
+            case 'RNTO': {
+                if (!this.renameFrom) return this.reply(503, 'RNFR required first');
+                const from = this.renameFrom;
+                this.renameFrom = undefined;
+                fs.renameSync(from, this.resolve(argument).local);
+                return this.reply(250, 'Renamed');
+            }
+            case 'SITE': {
+                const chmod = argument.match(/^CHMOD\s+([0-7]{3,4})\s+(.+)$/i);
+                if (chmod) fs.chmodSync(this.resolve(chmod[2]).local, parseInt(chmod[1], 8));
+                return this.reply(200, `SITE ${argument.split(' ')[0]} ok`);
+            }
+            default:
+                return this.reply(502, `${command} not implemented`);
+        }
+    }
+
+    // Switch the control connection to TLS after AUTH TLS
+    private upgrade(argument: string): void {
+        const secureContext = this.host.secureContext;
+        if (!secureContext || !['TLS', 'SSL'].includes(argument.toUpperCase())) return this.reply(504, 'AUTH not supported');
+        this.reply(234, 'Starting TLS');
+        this.socket.removeAllListeners('data');
+        this.socket = new tls.TLSSocket(this.socket, { isServer: true, secureContext });
+        this.attach(this.socket);
+    }
+
+    // Listen for the data connection of the next transfer, returning its port
+    private async openPassive(): Promise<number> {
+        this.passive?.close();
+        const server = net.createServer();
+        const secureContext = this.protectData ? this.host.secureContext : undefined;
+        this.dataSocket = new Promise<net.Socket>((resolve, reject) => {
+            const timer = setTimeout(() => reject(new Error('No data connection')), DATA_CONNECTION_TIMEOUT);
+            server.once('connection', (socket) => {
+                clearTimeout(timer);
+                server.close();
+                socket.on('error', () => socket.destroy());
+                resolve(secureContext ? new tls.TLSSocket(socket, { isServer: true, secureContext }) : socket);
+            });
+        });
+        this.dataSocket.catch(() => undefined);
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        this.passive = server;
+        return (server.address() as net.AddressInfo).port;
+    }
+
+    // Run a transfer over the data connection opened with EPSV or PASV
+    private async transfer(run: (socket: net.Socket) => Promise<unknown>): Promise<void> {
+        const pending = this.dataSocket;
+        this.dataSocket = undefined;
+        if (!pending) return this.reply(425, 'Use EPSV or PASV first');
+        let socket: net.Socket;
+        try {
+            socket = await pending;
+        } catch (err: any) {
+            return this.reply(425, err.message);
+        }
+        this.reply(150, 'Opening data connection');
+        try {
+            await run(socket);
+            this.reply(226, 'Transfer complete');
+        } catch (err: any) {
+            socket.destroy();
+            this.reply(451, `Transfer failed: ${err.message}`);
+        }
+    }
+
+    private list(argument: string): Promise<void> {
+        const { local } = this.resolve(argument);
+        if (!fs.existsSync(local)) return Promise.resolve(this.reply(550, `${argument}: No such file or directory`));
+        const stat = fs.statSync(local);
+        const entries = stat.isDirectory() ?
+            fs.readdirSync(local).map((name) => formatListEntry(name, fs.statSync(path.join(local, name)))) :
+            [formatListEntry(path.basename(local), stat)];
+        return this.transfer((socket) => new Promise<void>((resolve, reject) => {
+            socket.on('error', reject);
+            socket.end(entries.map((entry) => entry + '\r\n').join(''), () => resolve());
+        }));
+    }
+}
+
+// Served directory, command log and injected faults shared by the FTP and the SFTP test server
+abstract class TestServer {
+    readonly root: string;
+    // Every command received so far, in order
+    readonly commands: TestFtpCommand[] = [];
+    // Connections accepted so far, reconnects included
+    connectionCount = 0;
+
+    private ownsRoot: boolean;
+    private faults: (TestFtpFault & { times: number })[] = [];
+
+    constructor(root?: string) {
+        this.ownsRoot = !root;
+        this.root = root || fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-ftp-server-'));
+    }
+
+    abstract start(): Promise<void>;
+
+    // Cut every open connection, as a server restart or network failure would
+    abstract dropConnections(): void;
+
+    // Connection settings for FtpDeploy, to be combined with the directories and options under test
+    abstract config(): Partial<FtpDeployConfig>;
+
+    // Close every connection and the server, removing the root directory unless it was given
+    async stop(): Promise<void> {
+        this.dropConnections();
+        await this.close();
+        if (this.ownsRoot) fs.rmSync(this.root, { recursive: true, force: true });
+    }
+
+    // Fail the next commands matching the fault
+    injectFault(fault: TestFtpFault): void {
+        this.faults.push({ ...fault, command: fault.command.toUpperCase(), times: fault.times ?? 1 });
+    }
+
+    // Local path of a remote path
+    path(remotePath: string): string {
+        return path.join(this.root, ...remotePath.split('/').filter(Boolean));
+    }
+
+    exists(remotePath: string): boolean {
+        return fs.existsSync(this.path(remotePath));
+    }
+
+    readFile(remotePath: string): string {
+        return fs.readFileSync(this.path(remotePath), 'utf8');
+    }
+
+    // Put a file on the server directly, creating its directories
+    writeFile(remotePath: string, content: string | Buffer): void {
+        const filePath = this.path(remotePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+    }
+
+    // Paths of all files below a remote directory, relative to it and sorted
+    listFiles(remoteDir = '/'): string[] {
+        const base = this.path(remoteDir);
+        const walk = (dir: string): string[] => fs.readdirSync(dir).flatMap((name) => {
+            const fullPath = path.join(dir, name);
+            return fs.statSync(fullPath).isDirectory() ? walk(fullPath) : [path.relative(base, fullPath).replace(/\\/g, '/')];
+        });
+        return fs.existsSync(base) ? walk(base).sort() : [];
+    }
+
+    // Stop listening
+    protected abstract close(): Promise<void>;
+
+    // Record a command and return the fault to inject for it, consuming the first one it matches
+    protected receive(command: TestFtpCommand): TestFtpFault | undefined {
+        this.commands.push(command);
+        const index = this.faults.findIndex((fault) => fault.command === command.command &&
+            (fault.path === undefined || (typeof fault.path === 'string' ? command.argument.includes(fault.path) : fault.path.test(command.argument))));
+        if (index < 0) return undefined;
+        const fault = this.faults[index];
+        if (--fault.times <= 0) this.faults.splice(index, 1);
+        return fault;
+    }
+}
+
+// In-process FTP and FTPS server on a local directory, for testing deploy configs end to end
+export class TestFtpServer extends TestServer {
+    private options: TestFtpServerOptions;
+    private server?: net.Server;
+    private sessions = new Set<FtpSession>();
+    private host: SessionHost;
+
+    constructor(options: TestFtpServerOptions = {}) {
+        super(options.root);
+        this.options = options;
+        this.host = {
+            root: this.root,
+            user: options.user ?? 'test',
+            password: options.password ?? 'test',
+            ...(options.tls && { secureContext: tls.createSecureContext(options.tls) }),
+            receive: (command) => this.receive(command)
+        };
+    }
+
+    // Port the server listens on, once started
+    get port(): number {
+        if (!this.server) throw new Error('Test FTP server is not started');
+        return (this.server.address() as net.AddressInfo).port;
+    }
+
+    // Listen on a free port of 127.0.0.1
+    async start(): Promise<void> {
+        const server = net.createServer((socket) => {
+            const session = new FtpSession(this.host, ++this.connectionCount, socket);
+            this.sessions.add(session);
+            socket.on('close', () => this.sessions.delete(session));
+        });
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(0, '127.0.0.1', resolve);
+        });
+        this.server = server;
+    }
+
+    config(): Partial<FtpDeployConfig> {
+        return {
+            host: '127.0.0.1',
+            port: this.port,
+            user: this.host.user,
+            password: this.host.password,
+            secure: !!this.options.tls,
+            // The test certificate is self-signed
+            ...(this.options.tls && { secureOptions: { rejectUnauthorized: false } })
+        };
+    }
+
+    dropConnections(): void {
+        for (const session of this.sessions) session.close();
+        this.sessions.clear();
+    }
+
+    protected async close(): Promise<void> {
+        if (this.server) await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+        this.server = undefined;
+    }
+}
+
+const { OPEN_MODE, STATUS_CODE } = sshUtils.sftp;
+
+// An open file or directory of an SFTP session
+interface SftpHandle {
+    virtual: string;
+    local: string;
+    fd?: number;
+    // Names of a directory handle, cleared once READDIR returned them
+    entries?: string[];
+}
+
+// SFTP status of a failed file system call
+function toStatusCode(err: any): number {
+    if (err?.code === 'ENOENT' || err?.code === 'ENOTDIR') return STATUS_CODE.NO_SUCH_FILE;
+    if (err?.code === 'EACCES' || err?.code === 'EPERM') return STATUS_CODE.PERMISSION_DENIED;
+    return STATUS_CODE.FAILURE;
+}
+
+// SFTP attributes of a local file
+function toAttributes(stat: fs.Stats): Attributes {
+    return {
+        mode: stat.mode,
+        uid: stat.uid,
+        gid: stat.gid,
+        size: stat.size,
+        atime: Math.floor(stat.atimeMs / 1000),
+        mtime: Math.floor(stat.mtimeMs / 1000)
+    };
+}
+
+// fs.openSync flags of SFTP open flags
+function toOpenFlags(flags: number): string {
+    const read = (flags & OPEN_MODE.READ) !== 0;
+    if ((flags & OPEN_MODE.WRITE) === 0) return 'r';
+    if (flags & OPEN_MODE.APPEND) return read ? 'a+' : 'a';
+    if (flags & OPEN_MODE.TRUNC) return (flags & OPEN_MODE.EXCL ? 'wx' : 'w') + (read ? '+' : '');
+    // Writes into an existing file, which CREAT creates first when missing
+    return 'r+';
+}
+
+// One SSH connection, answering the requests of its SFTP sessions
+class SftpSession {
+    private host: SessionHost;
+    private id: number;
+    private connection: SshConnection;
+    private handles = new Map<string, SftpHandle>();
+    private nextHandle = 0;
+    private closed = false;
+
+    constructor(host: SessionHost, id: number, connection: SshConnection) {
+        this.host = host;
+        this.id = id;
+        this.connection = connection;
+        connection.on('authentication', (context) => {
+            if (context.method === 'password' && context.username === host.user && context.password === host.password) context.accept();
+            else context.reject(['password']);
+        });
+        connection.on('ready', () => {
+            connection.on('session', (acceptSession) => {
+                acceptSession().on('sftp', (acceptSftp) => this.serve(acceptSftp()));
+            });
+        });
+        connection.on('error', () => this.close());
+        connection.on('close', () => this.close());
+    }
+
+    close(): void {
+        if (this.closed) return;
+        this.closed = true;
+        for (const handle of this.handles.values()) if (handle.fd !== undefined) fs.closeSync(handle.fd);
+        this.handles.clear();
+        this.connection.end();
+    }
+
+    // Map a path of the client onto the served directory, never above its root
+    private resolve(argument: string): { virtual: string; local: string } {
+        const virtual = path.posix.resolve('/', argument || '.');
+        return { virtual, local: path.join(this.host.root, ...virtual.split('/').filter(Boolean)) };
+    }
+
+    private addHandle(handle: SftpHandle): Buffer {
+        const id = Buffer.alloc(4);
+        id.writeUInt32BE(this.nextHandle++);
+        this.handles.set(id.toString('hex'), handle);
+        return id;
+    }
+
+    // Answer every request of an SFTP session, recording it and injecting faults by path
+    private serve(sftp: SFTPWrapper): void {
+        const on = (request: string, getPath: (...args: any[]) => string, run: (reqId: number, ...args: any[]) => void) => {
+            sftp.on(request as any, (reqId: number, ...args: any[]) => {
+                const fault = this.host.receive({ connection: this.id, command: request, argument: getPath(...args) });
+                if (fault) {
+                    if (fault.reply) sftp.status(reqId, fault.reply, `Injected failure of ${request}`);
+                    else this.close();
+                    return;
+                }
+                try {
+                    run(reqId, ...args);
+                } catch (err) {
+                    sftp.status(reqId, toStatusCode(err));
+                }
+            });
+        };
+        const byPath = (argument: string) => argument;
+        const byHandle = (handle: Buffer) => this.handles.get(handle.toString('hex'))?.virtual ?? '';
+        const getHandle = (handle: Buffer): SftpHandle => {
+            const entry = this.handles.get(handle.toString('hex'));
+            if (!entry) throw new Error('Invalid handle');
+            return entry;
+        };
+        on('REALPATH', byPath, (reqId: number, argument: string) => {
+            const { virtual } = this.resolve(argument);
+            sftp.name(reqId, [{ filename: virtual, longname: virtual, attrs: {} as Attributes }]);
+        });
+        for (const request of ['STAT', 'LSTAT']) {
+            on(request, byPath, (reqId: number, argument: string) => sftp.attrs(reqId, toAttributes(fs.statSync(this.resolve(argument).local))));
+        }
+        on('FSTAT', byHandle, (reqId: number, handle: Buffer) => {
+            const entry = getHandle(handle);
+            sftp.attrs(reqId, toAttributes(entry.fd !== undefined ? fs.fstatSync(entry.fd) : fs.statSync(entry.local)));
+        });
+        on('OPEN', byPath, (reqId: number, argument: string, flags: number) => {
+            const target = this.resolve(argument);
+            const openFlags = toOpenFlags(flags);
+            if (openFlags === 'r+' && flags & OPEN_MODE.CREAT && !fs.existsSync(target.local)) fs.writeFileSync(target.local, '');
+            sftp.handle(reqId, this.addHandle({ ...target, fd: fs.openSync(target.local, openFlags) }));
+        });
+        on('READ', byHandle, (reqId: number, handle: Buffer, offset: number, length: number) => {
+            const buffer = Buffer.alloc(length);
+            const read = fs.readSync(getHandle(handle).fd as number, buffer, 0, length, offset);
+            if (read === 0) sftp.status(reqId, STATUS_CODE.EOF);
+            else sftp.data(reqId, buffer.subarray(0, read));
+        });
+        on('WRITE', byHandle, (reqId: number, handle: Buffer, offset: number, data: Buffer) => {
+            fs.writeSync(getHandle(handle).fd as number, data, 0, data.length, offset);
+            sftp.status(reqId, STATUS_CODE.OK);
+        });
+        on('CLOSE', byHandle, (reqId: number, handle: Buffer) => {
+            const entry = getHandle(handle);
+            if (entry.fd !== undefined) fs.closeSync(entry.fd);
+            this.handles.delete(handle.toString('hex'));
+            sftp.status(reqId, STATUS_CODE.OK);
+        });
+        on('OPENDIR', byPath, (reqId: number, argument: string) => {
+            const target = this.resolve(argument);
+            sftp.handle(reqId, this.addHandle({ ...target, entries: fs.readdirSync(target.local) }));
+        });
+        on('READDIR', byHandle, (reqId: number, handle: Buffer) => {
+            const entry = getHandle(handle);
+            if (!entry.entries || entry.entries.length === 0) return sftp.status(reqId, STATUS_CODE.EOF);
+            const names = entry.entries.map((name) => ({ filename: name, longname: name, attrs: toAttributes(fs.statSync(path.join(entry.local, name))) }));
+            entry.entries = undefined;
+            sftp.name(reqId, names);
+        });
+        on('REMOVE', byPath, (reqId: number, argument: string) => {
+            fs.unlinkSync(this.resolve(argument).local);
+            sftp.status(reqId, STATUS_CODE.OK);
+        });
+        on('MKDIR', byPath, (reqId: number, argument: string) => {
+            fs.mkdirSync(this.resolve(argument).local);
+            sftp.status(reqId, STATUS_CODE.OK);
+        });
+        on('RMDIR', byPath, (reqId: number, argument: string) => {
+            fs.rmdirSync(this.resolve(argument).local);
+            sftp.status(reqId, STATUS_CODE.OK);
+        });
+        on('RENAME', byPath, (reqId: number, from: string, to: string) => {
+            const target = this.resolve(to).local;
+            // Like OpenSSH, SFTP version 3 renames never replace an existing file
+            if (fs.existsSync(target)) return sftp.status(reqId, STATUS_CODE.FAILURE, `${to} already exists`);
+            fs.renameSync(this.resolve(from).local, target);
+            sftp.status(reqId, STATUS_CODE.OK);
+        });
+        on('SETSTAT', byPath, (reqId: number, argument: string, attrs: Partial<Attributes>) => {
+            if (attrs.mode !== undefined) fs.chmodSync(this.resolve(argument).local, attrs.mode & 0o7777);
+            sftp.status(reqId, STATUS_CODE.OK);
+        });
+        on('FSETSTAT', byHandle, (reqId: number, handle: Buffer, attrs: Partial<Attributes>) => {
+            const entry = getHandle(handle);
+            if (attrs.mode !== undefined && entry.fd !== undefined) fs.fchmodSync(entry.fd, attrs.mode & 0o7777);
+            sftp.status(reqId, STATUS_CODE.OK);
+        });
+    }
+}
+
+// Host key shared by the test SFTP servers of a process, made on first use. A PKCS#1 PEM key,
+// which ssh2 always parses, unlike some of the OpenSSH keys its own generator writes
+let sftpHostKey: string | undefined;
+
+function getSftpHostKey(): string {
+    sftpHostKey ??= crypto.generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs1', format: 'pem' }
+    }).privateKey;
+    return sftpHostKey;
+}
+
+// In-process SFTP server with password login on a local directory, for testing SFTP deploys end to end
+export class TestSftpServer extends TestServer {
+    private server?: SshServer;
+    private sessions = new Set<SftpSession>();
+    private host: SessionHost;
+
+    constructor(options: TestSftpServerOptions = {}) {
+        super(options.root);
+        this.host = {
+            root: this.root,
+            user: options.user ?? 'test',
+            password: options.password ?? 'test',
+            receive: (command) => this.receive(command)
+        };
+    }
+
+    // Port the server listens on, once started
+    get port(): number {
+        if (!this.server) throw new Error('Test SFTP server is not started');
+        return (this.server.address() as net.AddressInfo).port;
+    }
+
+    // Listen on a free port of 127.0.0.1
+    async start(): Promise<void> {
+        const server = new SshServer({ hostKeys: [getSftpHostKey()] }, (connection) => {
+            const session = new SftpSession(this.host, ++this.connectionCount, connection);
+            this.sessions.add(session);
+            connection.on('close', () => this.sessions.delete(session));
+        });
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(0, '127.0.0.1', resolve);
+        });
+        this.server = server;
+    }
+
+    config(): Partial<FtpDeployConfig> {
+        return {
+            protocol: 'sftp',
+            host: '127.0.0.1',
+            port: this.port,
+            user: this.host.user,
+            password: this.host.password
+        };
+    }
+
+    dropConnections(): void {
+        for (const session of this.sessions) session.close();
+        this.sessions.clear();
+    }
+
+    protected async close(): Promise<void> {
+        if (this.server) await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+        this.server = undefined;
+    }
+}
@@ -0,0 +1,117 @@
+import zlib from 'zlib';
+import { PathMatcher, toRules } from './filters';
+
+export type CompressionFormat = 'gzip' | 'brotli';
+
+export const COMPRESSION_FORMATS: CompressionFormat[] = ['gzip', 'brotli'];
+
+// Suffix of the variant each format adds next to the file
+const COMPRESSION_EXTENSIONS: Record<CompressionFormat, string> = { gzip: '.gz', brotli: '.br' };
+
+// Rewrites the files matching `match` on their way to the server
+export interface TransformRule {
+    // Gitignore-style globs, `!` re-excludes
+    match: string[];
+    // Placeholder → value, replaced in text files, e.g. { "__VERSION__": "1.4.2" }
+    replace?: Record<string, string>;
+    // Compressed variants uploaded next to the file, e.g. app.js.gz and app.js.br
+    compress?: CompressionFormat[];
+}
+
+// A file produced by the pipeline: the transformed file itself or one of its compressed variants
+export interface TransformOutput {
+    relativePath: string;
+    content: Buffer;
+}
+
+interface CompiledTransform {
+    rule: TransformRule;
+    matcher: PathMatcher;
+}
+
+// Check the shape of every rule, returning one message per invalid field
+export function validateTransforms(rules: Record<string, unknown>[], prefix = 'transforms'): string[] {
+    const errors: string[] = [];
+    rules.forEach((rule, index) => {
+        const field = `${prefix}[${index}]`;
+        for (const key of Object.keys(rule)) {
+            if (!['match', 'replace', 'compress'].includes(key)) errors.push(`${field}.${key}: unknown option, expected match, replace or compress`);
+        }
+        if (!Array.isArray(rule.match) || rule.match.length === 0 || !rule.match.every((pattern) => typeof pattern === 'string')) {
+            errors.push(`${field}.match: expected a non-empty array of globs`);
+        }
+        const replace = rule.replace;
+        if (replace !== undefined && (typeof replace !== 'object' || replace === null || Array.isArray(replace) ||
+            !Object.values(replace).every((value) => typeof value === 'string'))) {
+            errors.push(`${field}.replace: expected an object of placeholder → string`);
+        }
+        const compress = rule.compress;
+        if (compress !== undefined && (!Array.isArray(compress) || !compress.every((format) => COMPRESSION_FORMATS.includes(format)))) {
+            errors.push(`${field}.compress: expected an array of ${COMPRESSION_FORMATS.join(', ')}`);
+        }
+    });
+    return errors;
+}
+
+// Replace placeholders in text content, binary content (with a NUL byte) passes through untouched
+function replacePlaceholders(content: Buffer, replace: Record<string, string>): Buffer {
+    if (content.includes(0)) return content;
+    let text = content.toString('utf8');
+    for (const [placeholder, value] of Object.entries(replace)) text = text.split(placeholder).join(value);
+    return Buffer.from(text, 'utf8');
+}
+
+// Compress at the highest level; both encoders are deterministic, so unchanged input keeps its hash
+function compress(content: Buffer, format: CompressionFormat): Buffer {
+    if (format === 'gzip') return zlib.gzipSync(content, { level: zlib.constants.Z_BEST_COMPRESSION });
+    return zlib.brotliCompressSync(content, {
+        params: {
+            [zlib.constants.BROTLI_PARAM_QUALITY]: zlib.constants.BROTLI_MAX_QUALITY,
+            [zlib.constants.BROTLI_PARAM_SIZE_HINT]: content.length
+        }
+    });
+}
+
+// Applies transform rules in config order: every matching rule's replacements, then the compressed variants of the result
+export class TransformPipeline {
+    private transforms: CompiledTransform[];
+
+    constructor(rules: TransformRule[] = []) {
+        this.transforms = rules.map((rule) => ({ rule, matcher: new PathMatcher(toRules(rule.match, 'transforms')) }));
+    }
+
+    get isEmpty(): boolean {
+        return this.transforms.length === 0;
+    }
+
+    // Whether any rule applies to a path relative to local_dir
+    matches(relativePath: string): boolean {
+        return this.transforms.some(({ matcher }) => matcher.match(relativePath).matched);
+    }
+
+    // Transformed content of a file followed by its compressed variants
+    apply(relativePath: string, content: Buffer): TransformOutput[] {
+        let output = content;
+        const formats = new Set<CompressionFormat>();
+        for (const { rule, matcher } of this.transforms) {
+            if (!matcher.match(relativePath).matched) continue;
+            if (rule.replace) output = replacePlaceholders(output, rule.replace);
+            rule.compress?.forEach((format) => formats.add(format));
+        }
+        return [
+            { relativePath, content: output },
+            ...[...formats].map((format) => ({ relativePath: relativePath + COMPRESSION_EXTENSIONS[format], content: compress(output, format) }))
+        ];
+    }
+
+    // One line per rule for the analysis output
+    describe(): string[] {
+        return this.transforms.map(({ rule }) => {
+            const steps = [
+                ...(rule.replace ? [`replace ${Object.keys(rule.replace).join(', ')}`] : []),
+                ...(rule.compress && rule.compress.length > 0 ? [rule.compress.join(' + ')] : [])
+            ];
+            return `${rule.match.join(', ')} → ${steps.join(', ') || 'unchanged'}`;
+        });
+    }
+}
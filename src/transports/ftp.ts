@@ -0,0 +1,143 @@
+import fs from 'fs';
+import { Client } from 'basic-ftp';
+import { BandwidthLimiter } from '../limits';
+import { Transport, TransportOptions, TransportLog, RemoteFileInfo, ProgressCallback, ChecksumAlgorithm } from './index';
+
+// Non-standard but widespread commands returning a file hash
+const CHECKSUM_COMMANDS: Record<ChecksumAlgorithm, string> = {
+    md5: 'XMD5',
+    sha1: 'XSHA1',
+    sha256: 'XSHA256'
+};
+
+// Check if an FTP error means the command is not implemented or not allowed
+function isUnsupportedError(err: any): boolean {
+    return [500, 501, 502, 504].includes(err?.code);
+}
+
+// FTP and FTPS transport backed by basic-ftp
+export class FtpTransport implements Transport {
+    readonly label: string;
+
+    private client: Client;
+    private options: TransportOptions;
+    private features?: Map<string, string>;
+    private limiter?: BandwidthLimiter;
+
+    constructor(options: TransportOptions, log?: TransportLog, limiter?: BandwidthLimiter) {
+        this.options = options;
+        this.limiter = limiter;
+        this.label = options.secure ? 'FTPS' : 'FTP';
+        this.client = new Client();
+        // Verbose mode logs the control connection, routed to the deploy logger when given
+        this.client.ftp.verbose = !!options.verbose;
+        if (log) {
+            const ftp = this.client.ftp;
+            ftp.log = (message: string) => {
+                if (ftp.verbose) log(message);
+            };
+        }
+    }
+
+    async connect(): Promise<void> {
+        this.features = undefined;
+        await this.client.access(this.options);
+    }
+
+    close(): void {
+        this.client.close();
+    }
+
+    async list(remotePath: string): Promise<RemoteFileInfo[]> {
+        const list = await this.client.list(remotePath);
+        return list.map((item) => ({
+            name: item.name,
+            size: item.size,
+            isDirectory: item.isDirectory,
+            isFile: item.isFile,
+            modifiedAt: item.modifiedAt
+        }));
+    }
+
+    async size(remotePath: string): Promise<number> {
+        return this.client.size(remotePath);
+    }
+
+    async lastModified(remotePath: string): Promise<Date | undefined> {
+        try {
+            return await this.client.lastMod(remotePath);
+        } catch (err) {
+            if (isUnsupportedError(err)) return undefined;
+            throw err;
+        }
+    }
+
+    async checksum(remotePath: string, algorithm: ChecksumAlgorithm): Promise<string | undefined> {
+        const command = CHECKSUM_COMMANDS[algorithm];
+        // FEAT is only asked once per connection
+        if (!this.features) this.features = await this.client.features().catch(() => new Map<string, string>());
+        if (!this.features.has(command)) return undefined;
+        try {
+            const response = await this.client.send(`${command} ${remotePath}`);
+            return response.message.match(/\b([0-9a-f]{32,128})\b/i)?.[1].toLowerCase();
+        } catch (err) {
+            if (isUnsupportedError(err)) return undefined;
+            throw err;
+        }
+    }
+
+    async uploadFrom(localPath: string, remotePath: string, onProgress?: ProgressCallback): Promise<void> {
+        if (onProgress) this.client.trackProgress((info) => onProgress(info.bytes));
+        try {
+            // A throttled stream replaces the file path, basic-ftp reads either
+            const source = this.limiter ? this.limiter.throttle(fs.createReadStream(localPath)) : localPath;
+            await this.client.uploadFrom(source, remotePath);
+        } finally {
+            if (onProgress) this.client.trackProgress();
+        }
+    }
+
+    async appendFrom(localPath: string, remotePath: string, localStart: number, onProgress?: ProgressCallback): Promise<void> {
+        if (onProgress) this.client.trackProgress((info) => onProgress(localStart + info.bytes));
+        try {
+            if (this.limiter) await this.client.appendFrom(this.limiter.throttle(fs.createReadStream(localPath, { start: localStart })), remotePath);
+            else await this.client.appendFrom(localPath, remotePath, { localStart });
+        } finally {
+            if (onProgress) this.client.trackProgress();
+        }
+    }
+
+    async downloadTo(localPath: string, remotePath: string, onProgress?: ProgressCallback): Promise<void> {
+        if (onProgress) this.client.trackProgress((info) => onProgress(info.bytes));
+        try {
+            await this.client.downloadTo(localPath, remotePath);
+        } finally {
+            if (onProgress) this.client.trackProgress();
+        }
+    }
+
+    async remove(remotePath: string): Promise<void> {
+        await this.client.remove(remotePath);
+    }
+
+    async rename(fromPath: string, toPath: string): Promise<void> {
+        await this.client.rename(fromPath, toPath);
+    }
+
+    async ensureDir(remotePath: string): Promise<void> {
+        await this.client.ensureDir(remotePath);
+    }
+
+    async removeDir(remotePath: string): Promise<void> {
+        await this.client.removeDir(remotePath);
+    }
+
+    async site(command: string): Promise<string> {
+        const response = await this.client.send(`SITE ${command}`);
+        return response.message;
+    }
+
+    async chmod(remotePath: string, mode: string): Promise<void> {
+        await this.client.send(`SITE CHMOD ${mode} ${remotePath}`);
+    }
+}
@@ -0,0 +1,189 @@
+import fs from 'fs';
+import path from 'path';
+import { Client, ConnectConfig, SFTPWrapper, FileEntryWithStats, Stats } from 'ssh2';
+import { BandwidthLimiter } from '../limits';
+import { Transport, RemoteFileInfo, TransportOptions, TransportLog, ProgressCallback, ChecksumAlgorithm, isNotFoundError } from './index';
+
+type Callback<T> = (err: Error | null | undefined, result?: T) => void;
+
+// SFTP transport backed by ssh2, authenticating with password, private key or SSH agent
+export class SftpTransport implements Transport {
+    readonly label = 'SFTP';
+
+    private options: TransportOptions;
+    private connection?: Client;
+    private sftp?: SFTPWrapper;
+    private log?: TransportLog;
+    private limiter?: BandwidthLimiter;
+
+    constructor(options: TransportOptions, log?: TransportLog, limiter?: BandwidthLimiter) {
+        this.options = options;
+        this.log = log;
+        this.limiter = limiter;
+    }
+
+    // Build ssh2 connection settings from the deploy options
+    private getConnectConfig(): ConnectConfig {
+        const { host, port, user, password, private_key, passphrase, agent } = this.options;
+        const config: ConnectConfig = {
+            host,
+            port: port || 22,
+            username: user,
+            password
+        };
+        if (private_key) {
+            // Accept either the key itself or a path to the key file
+            config.privateKey = private_key.includes('PRIVATE KEY') ? private_key : fs.readFileSync(private_key);
+            if (passphrase) config.passphrase = passphrase;
+        }
+        if (agent) config.agent = agent === true ? process.env.SSH_AUTH_SOCK : agent;
+        if (this.options.verbose && this.log) config.debug = this.log;
+        return config;
+    }
+
+    // Run an SFTP request and turn its callback into a promise
+    private call<T>(request: (sftp: SFTPWrapper, callback: Callback<T>) => void): Promise<T> {
+        return new Promise((resolve, reject) => {
+            if (!this.sftp) {
+                reject(Object.assign(new Error('SFTP connection is not open'), { code: 'ECONNRESET' }));
+                return;
+            }
+            request(this.sftp, (err, result) => (err ? reject(err) : resolve(result as T)));
+        });
+    }
+
+    connect(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const connection = new Client();
+            connection.on('ready', () => {
+                connection.sftp((err, sftp) => {
+                    if (err) {
+                        connection.end();
+                        reject(err);
+                        return;
+                    }
+                    this.connection = connection;
+                    this.sftp = sftp;
+                    resolve();
+                });
+            });
+            connection.on('error', (err) => {
+                this.sftp = undefined;
+                reject(err);
+            });
+            connection.on('close', () => {
+                this.sftp = undefined;
+            });
+            try {
+                connection.connect(this.getConnectConfig());
+            } catch (err) {
+                reject(err);
+            }
+        });
+    }
+
+    close(): void {
+        this.sftp = undefined;
+        this.connection?.end();
+        this.connection = undefined;
+    }
+
+    async list(remotePath: string): Promise<RemoteFileInfo[]> {
+        const list = await this.call<FileEntryWithStats[]>((sftp, cb) => sftp.readdir(remotePath, cb));
+        return list.map((item) => ({
+            name: item.filename,
+            size: item.attrs.size,
+            isDirectory: item.attrs.isDirectory(),
+            isFile: item.attrs.isFile(),
+            modifiedAt: new Date(item.attrs.mtime * 1000)
+        }));
+    }
+
+    async size(remotePath: string): Promise<number> {
+        const stats = await this.call<Stats>((sftp, cb) => sftp.stat(remotePath, cb));
+        return stats.size;
+    }
+
+    async lastModified(remotePath: string): Promise<Date | undefined> {
+        const stats = await this.call<Stats>((sftp, cb) => sftp.stat(remotePath, cb));
+        return new Date(stats.mtime * 1000);
+    }
+
+    // SFTP has no standard way to hash a file on the server
+    async checksum(_remotePath: string, _algorithm: ChecksumAlgorithm): Promise<string | undefined> {
+        return undefined;
+    }
+
+    // Stream a local file into a remote one from byte start on, throttled when a limiter is set
+    private writeFrom(localPath: string, remotePath: string, start: number, flags: 'w' | 'r+', onProgress?: ProgressCallback): Promise<void> {
+        return this.call<void>((sftp, cb) => {
+            const file = fs.createReadStream(localPath, { start });
+            const source = this.limiter ? this.limiter.throttle(file) : file;
+            const target = sftp.createWriteStream(remotePath, { flags, start });
+            let transferred = start;
+            if (onProgress) source.on('data', (chunk: Buffer) => onProgress(transferred += chunk.length));
+            source.on('error', cb);
+            target.on('error', cb);
+            target.on('close', () => cb(null));
+            source.pipe(target);
+        });
+    }
+
+    async uploadFrom(localPath: string, remotePath: string, onProgress?: ProgressCallback): Promise<void> {
+        // fastPut reads the file itself in parallel chunks, which cannot be throttled
+        if (this.limiter) return this.writeFrom(localPath, remotePath, 0, 'w', onProgress);
+        const step = onProgress && ((transferred: number) => onProgress(transferred));
+        await this.call((sftp, cb) => sftp.fastPut(localPath, remotePath, step ? { step } : {}, cb));
+    }
+
+    async appendFrom(localPath: string, remotePath: string, localStart: number, onProgress?: ProgressCallback): Promise<void> {
+        // r+ writes into the existing file at the given offset instead of truncating it
+        await this.writeFrom(localPath, remotePath, localStart, 'r+', onProgress);
+    }
+
+    async downloadTo(localPath: string, remotePath: string, onProgress?: ProgressCallback): Promise<void> {
+        const step = onProgress && ((transferred: number) => onProgress(transferred));
+        await this.call((sftp, cb) => sftp.fastGet(remotePath, localPath, step ? { step } : {}, cb));
+    }
+
+    async remove(remotePath: string): Promise<void> {
+        await this.call((sftp, cb) => sftp.unlink(remotePath, cb));
+    }
+
+    async rename(fromPath: string, toPath: string): Promise<void> {
+        await this.call((sftp, cb) => sftp.rename(fromPath, toPath, cb));
+    }
+
+    async ensureDir(remotePath: string): Promise<void> {
+        const parts = remotePath.split('/').filter(Boolean);
+        let current = remotePath.startsWith('/') ? '/' : '';
+        for (const part of parts) {
+            current = path.posix.join(current, part);
+            try {
+                await this.call((sftp, cb) => sftp.stat(current, cb));
+            } catch (err) {
+                if (!isNotFoundError(err)) throw err;
+                await this.call((sftp, cb) => sftp.mkdir(current, cb));
+            }
+        }
+    }
+
+    async removeDir(remotePath: string): Promise<void> {
+        for (const item of await this.list(remotePath)) {
+            if (item.name === '.' || item.name === '..') continue;
+            const itemPath = path.posix.join(remotePath, item.name);
+            if (item.isDirectory) await this.removeDir(itemPath);
+            else await this.remove(itemPath);
+        }
+        await this.call((sftp, cb) => sftp.rmdir(remotePath, cb));
+    }
+
+    // SITE is part of FTP, SFTP servers have no equivalent
+    async site(command: string): Promise<string> {
+        throw Object.assign(new Error(`SITE ${command}: SITE commands are not supported over SFTP`), { code: 'UNSUPPORTED' });
+    }
+
+    async chmod(remotePath: string, mode: string): Promise<void> {
+        await this.call((sftp, cb) => sftp.chmod(remotePath, parseInt(mode, 8), cb));
+    }
+}
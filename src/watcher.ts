@@ -0,0 +1,73 @@
+import fs from 'fs';
+import path from 'path';
+
+// Collects changed paths below a directory and reports them in debounced batches
+export class DirectoryWatcher {
+    private root: string;
+    private debounce: number;
+    private onBatch: (paths: string[]) => void;
+    private watchers = new Map<string, fs.FSWatcher>();
+    private pending = new Set<string>();
+    private timer?: NodeJS.Timeout;
+
+    constructor(root: string, debounce: number, onBatch: (paths: string[]) => void) {
+        this.root = root;
+        this.debounce = debounce;
+        this.onBatch = onBatch;
+    }
+
+    start(): void {
+        try {
+            const watcher = fs.watch(this.root, { recursive: true }, (_event, file) => this.record(file ? file.toString() : ''));
+            this.watchers.set('', watcher);
+        } catch {
+            // Recursive watching needs Node 20 on Linux, older versions watch every directory instead
+            this.watchTree('');
+        }
+    }
+
+    close(): void {
+        if (this.timer) clearTimeout(this.timer);
+        this.watchers.forEach((watcher) => watcher.close());
+        this.watchers.clear();
+        this.pending.clear();
+    }
+
+    // Watch a directory and its subdirectories one by one
+    private watchTree(relativeDir: string): void {
+        if (this.watchers.has(relativeDir)) return;
+        const dir = path.join(this.root, relativeDir);
+        let watcher: fs.FSWatcher;
+        try {
+            watcher = fs.watch(dir, (_event, file) => {
+                const relativePath = file ? path.join(relativeDir, file.toString()) : relativeDir;
+                this.record(relativePath);
+                // New directories need their own watcher
+                const fullPath = path.join(this.root, relativePath);
+                if (file && fs.existsSync(fullPath) && fs.statSync(fullPath).isDirectory()) this.watchTree(relativePath);
+            });
+        } catch {
+            return;
+        }
+        // A removed directory ends its watcher, the parent reports the removal
+        watcher.on('error', () => {
+            watcher.close();
+            this.watchers.delete(relativeDir);
+        });
+        this.watchers.set(relativeDir, watcher);
+        for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+            if (entry.isDirectory()) this.watchTree(path.join(relativeDir, entry.name));
+        }
+    }
+
+    // Queue a changed path and restart the debounce timer
+    private record(relativePath: string): void {
+        this.pending.add(relativePath.replace(/\\/g, '/'));
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            const paths = [...this.pending];
+            this.pending.clear();
+            this.onBatch(paths);
+        }, this.debounce);
+    }
+}
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigError, loadConfig, validateConfig } from '../src';
+
+// Load a JSON config file with the given environment variables
+async function loadJson(config: unknown, variables: NodeJS.ProcessEnv, env?: string) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-ftp-config-'));
+    try {
+        fs.writeFileSync(path.join(dir, 'deploy-ftp.json'), JSON.stringify(config));
+        return await loadConfig({ cwd: dir, variables, env });
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+describe('config validation', () => {
+    it('accepts a hash cache path or false', () => {
+        assert.deepEqual(validateConfig({ hash_cache: '/tmp/deploy-ftp-cache.json' }), []);
+        assert.deepEqual(validateConfig({ hash_cache: false }), []);
+    });
+
+    it('rejects a hash cache set to true or a number', () => {
+        assert.deepEqual(validateConfig({ hash_cache: true }), ['hash_cache: expected a file path or false, got true']);
+        assert.deepEqual(validateConfig({ hash_cache: 1 }), ['hash_cache: expected string or boolean, got 1']);
+    });
+});
+
+describe('config interpolation', () => {
+    it('validates the values ${VAR} references resolve to', async () => {
+        const loaded = await loadJson({ host: '${HOST}', protocol: '${PROTOCOL}' }, { HOST: 'ftp.example.com', PROTOCOL: 'sftp' });
+        assert.deepEqual(loaded.config, { host: 'ftp.example.com', protocol: 'sftp' });
+        await assert.rejects(loadJson({ protocol: '${PROTOCOL}', permissions: { '*.sh': '${MODE}' } }, { PROTOCOL: 'gopher', MODE: '7777x' }), (err: ConfigError) => {
+            assert.deepEqual(err.errors, [
+                'protocol: expected one of ftp, ftps, sftp, got "gopher"',
+                'permissions["*.sh"]: expected an octal mode such as "644", got "7777x"'
+            ]);
+            return true;
+        });
+    });
+
+    it('reports unset variables only in the selected environment', async () => {
+        const config = { host: 'ftp.example.com', environments: { staging: { user: '${STAGING_USER}' }, production: { user: '${PRODUCTION_USER}' } } };
+        const loaded = await loadJson(config, { STAGING_USER: 'deploy' }, 'staging');
+        assert.deepEqual(loaded.config, { host: 'ftp.example.com', user: 'deploy' });
+        await assert.rejects(loadJson(config, {}, 'production'), (err: ConfigError) => {
+            assert.deepEqual(err.errors, ['environments.production.user: environment variable PRODUCTION_USER is not set']);
+            return true;
+        });
+    });
+});
@@ -0,0 +1,421 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FtpDeploy, FtpDeployConfig, TestFtpServer, TestFtpServerOptions, silentLogger, parseManifest, parsePlan } from '../src';
+import { TEST_KEY, TEST_CERT } from './fixtures/tls';
+
+const HASH_FILE = '/site/.deploy_ftp_hash.json';
+
+let server: TestFtpServer;
+let localDir: string;
+
+// Start a server and an empty local directory for one test
+async function setUp(options: TestFtpServerOptions = {}): Promise<void> {
+    server = new TestFtpServer(options);
+    await server.start();
+    localDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-ftp-local-'));
+}
+
+async function tearDown(): Promise<void> {
+    await server.stop();
+    fs.rmSync(localDir, { recursive: true, force: true });
+}
+
+// Write local files, creating their directories
+function writeLocal(files: Record<string, string>): void {
+    for (const [file, content] of Object.entries(files)) {
+        const filePath = path.join(localDir, file);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+    }
+}
+
+// Every remote file with its content, to compare the server before and after a run
+function snapshot(): Record<string, string> {
+    return Object.fromEntries(server.listFiles().map((file) => [file, server.readFile(file)]));
+}
+
+function createDeployer(options: Partial<FtpDeployConfig> = {}): FtpDeploy {
+    return new FtpDeploy({
+        ...server.config(),
+        local_dir: localDir,
+        remote_dir: '/site',
+        logger: silentLogger,
+        hash_cache: false,
+        keep_releases: 0,
+        retry_delay: 10,
+        ...options
+    } as FtpDeployConfig);
+}
+
+function deploy(options: Partial<FtpDeployConfig> = {}) {
+    return createDeployer(options).deploy();
+}
+
+describe('incremental uploads', () => {
+    beforeEach(() => setUp());
+    afterEach(tearDown);
+
+    it('uploads every file on the first deploy and records it in the manifest', async () => {
+        writeLocal({ 'index.html': '<h1>Hi</h1>', 'css/site.css': 'body {}' });
+        const stats = await deploy();
+        assert.deepEqual(stats.errors, []);
+        assert.deepEqual([...stats.uploaded].sort(), ['css/site.css', 'index.html']);
+        assert.equal(server.readFile('/site/css/site.css'), 'body {}');
+        assert.deepEqual(Object.keys(parseManifest(JSON.parse(server.readFile(HASH_FILE))).files).sort(), ['css/site.css', 'index.html']);
+    });
+
+    it('uploads only changed files on the next deploy', async () => {
+        writeLocal({ 'index.html': '<h1>Hi</h1>', 'app.js': 'one' });
+        await deploy();
+        writeLocal({ 'app.js': 'two' });
+        const stats = await deploy();
+        assert.deepEqual(stats.uploaded, ['app.js']);
+        assert.deepEqual(stats.unchanged, ['index.html']);
+        assert.equal(server.readFile('/site/app.js'), 'two');
+        const unchanged = await deploy();
+        assert.deepEqual(unchanged.uploaded, []);
+    });
+});
+
+describe('orphan cleanup', () => {
+    beforeEach(() => setUp());
+    afterEach(tearDown);
+
+    it('removes remote files that no longer exist locally in clean mode', async () => {
+        writeLocal({ 'index.html': 'home', 'old/page.html': 'old' });
+        await deploy();
+        fs.rmSync(path.join(localDir, 'old'), { recursive: true });
+        server.writeFile('/site/stray.txt', 'not deployed');
+        const stats = await deploy({ clean_remote_files: true });
+        assert.deepEqual([...stats.removed].sort(), ['old/page.html', 'stray.txt']);
+        assert.deepEqual(server.listFiles('/site'), ['.deploy_ftp_hash.json', 'index.html']);
+    });
+
+    it('leaves orphans alone without clean mode', async () => {
+        writeLocal({ 'index.html': 'home' });
+        server.writeFile('/site/stray.txt', 'not deployed');
+        const stats = await deploy();
+        assert.deepEqual(stats.removed, []);
+        assert.ok(server.exists('/site/stray.txt'));
+    });
+
+    it('clears the destination but leaves excluded remote files untouched', async () => {
+        writeLocal({ 'index.html': 'home' });
+        server.writeFile('/site/stray.txt', 'not deployed');
+        server.writeFile('/site/uploads/photo.jpg', 'user content');
+        const stats = await deploy({ clear_destination: true, exclude: ['uploads/'] });
+        assert.deepEqual(stats.errors, []);
+        assert.ok(!server.exists('/site/stray.txt'));
+        assert.equal(server.readFile('/site/uploads/photo.jpg'), 'user content');
+        assert.equal(server.readFile('/site/index.html'), 'home');
+    });
+});
+
+describe('preserve rules', () => {
+    beforeEach(() => setUp());
+    afterEach(tearDown);
+
+    it('keeps preserved orphans and removes the rest', async () => {
+        writeLocal({ 'index.html': 'home' });
+        server.writeFile('/site/.env', 'SECRET=1');
+        server.writeFile('/site/uploads/a.jpg', 'a');
+        server.writeFile('/site/cache/page.html', 'cached');
+        const stats = await deploy({ clean_remote_files: true, preserve: ['.env', 'uploads/'] });
+        assert.deepEqual(stats.removed, ['cache/page.html']);
+        assert.equal(server.readFile('/site/.env'), 'SECRET=1');
+        assert.equal(server.readFile('/site/uploads/a.jpg'), 'a');
+        assert.ok(!server.exists('/site/cache'));
+    });
+
+    it('honours negated preserve rules', async () => {
+        writeLocal({ 'index.html': 'home' });
+        server.writeFile('/site/uploads/a.jpg', 'a');
+        server.writeFile('/site/uploads/tmp.log', 'log');
+        await deploy({ clean_remote_files: true, preserve: ['uploads/**', '!*.log'] });
+        assert.ok(server.exists('/site/uploads/a.jpg'));
+        assert.ok(!server.exists('/site/uploads/tmp.log'));
+    });
+});
+
+describe('dry run', () => {
+    beforeEach(() => setUp());
+    afterEach(tearDown);
+
+    it('changes nothing on the server', async () => {
+        writeLocal({ 'index.html': 'home', 'app.js': 'one' });
+        await deploy();
+        writeLocal({ 'app.js': 'two', 'new.txt': 'new' });
+        fs.rmSync(path.join(localDir, 'index.html'));
+        server.writeFile('/site/stray.txt', 'stray');
+        const before = snapshot();
+        const commandsBefore = server.commands.length;
+        const stats = await deploy({ dry_run: true, clean_remote_files: true });
+        assert.deepEqual(snapshot(), before);
+        assert.deepEqual([...stats.uploaded].sort(), ['app.js', 'new.txt']);
+        assert.deepEqual([...stats.removed].sort(), ['index.html', 'stray.txt']);
+        assert.ok(stats.files.every((file) => file.action === 'unchanged' || file.status === 'dry_run'));
+        const writes = server.commands.slice(commandsBefore).filter((command) => ['STOR', 'APPE', 'DELE', 'RMD', 'MKD', 'RNFR', 'SITE'].includes(command.command));
+        assert.deepEqual(writes, []);
+    });
+
+    it('does not clear the destination', async () => {
+        writeLocal({ 'index.html': 'home' });
+        server.writeFile('/site/stray.txt', 'stray');
+        const before = snapshot();
+        await deploy({ dry_run: true, clear_destination: true });
+        assert.deepEqual(snapshot(), before);
+    });
+});
+
+describe('hash file corruption', () => {
+    beforeEach(() => setUp());
+    afterEach(tearDown);
+
+    it('redeploys everything and rewrites an unreadable hash file', async () => {
+        writeLocal({ 'index.html': 'home', 'app.js': 'one' });
+        await deploy();
+        server.writeFile(HASH_FILE, '{"version": 2, "files": {"index.h');
+        const stats = await deploy();
+        assert.deepEqual(stats.errors, []);
+        assert.deepEqual([...stats.uploaded].sort(), ['app.js', 'index.html']);
+        const manifest = parseManifest(JSON.parse(server.readFile(HASH_FILE)));
+        assert.deepEqual(Object.keys(manifest.files).sort(), ['app.js', 'index.html']);
+    });
+
+    it('refuses a hash file from a newer version without touching the server', async () => {
+        writeLocal({ 'index.html': 'home' });
+        server.writeFile(HASH_FILE, JSON.stringify({ version: 99, files: {} }));
+        server.writeFile('/site/stray.txt', 'stray');
+        const before = snapshot();
+        const stats = await deploy({ clean_remote_files: true });
+        assert.equal(stats.errors.length, 1);
+        assert.deepEqual(snapshot(), before);
+    });
+});
+
+describe('drift verification', () => {
+    beforeEach(() => setUp());
+    afterEach(tearDown);
+
+    it('re-uploads a file deleted on the server', async () => {
+        writeLocal({ 'index.html': 'home', 'css/site.css': 'body {}' });
+        await deploy();
+        fs.rmSync(server.path('/site/css/site.css'));
+        const stats = await deploy({ verify: true });
+        assert.deepEqual(stats.uploaded, ['css/site.css']);
+        assert.equal(server.readFile('/site/css/site.css'), 'body {}');
+    });
+
+    it('aborts instead of re-uploading everything when a listing fails', async () => {
+        writeLocal({ 'index.html': 'home', 'css/site.css': 'body {}' });
+        await deploy();
+        server.injectFault({ command: 'LIST', path: 'css', reply: 450, times: 10 });
+        const stats = await deploy({ verify: true, max_retries: 2 });
+        assert.equal(stats.failures.length, 1);
+        assert.equal(stats.failures[0].code, 'FTP_450');
+        assert.deepEqual(stats.uploaded, []);
+    });
+});
+
+describe('connection drops', () => {
+    beforeEach(() => setUp());
+    afterEach(tearDown);
+
+    it('reconnects and retries an upload cut off by the server', async () => {
+        writeLocal({ 'a.txt': 'a', 'b.txt': 'b', 'c.txt': 'c' });
+        server.injectFault({ command: 'STOR', path: 'b.txt' });
+        const stats = await deploy();
+        assert.deepEqual(stats.errors, []);
+        assert.equal(server.readFile('/site/b.txt'), 'b');
+        assert.equal(stats.totals.retries, 1);
+        assert.ok(server.connectionCount >= 2);
+    });
+
+    it('reconnects during the remote scan and the cleanup', async () => {
+        writeLocal({ 'index.html': 'home' });
+        server.writeFile('/site/old/a.txt', 'a');
+        server.writeFile('/site/old/b.txt', 'b');
+        server.injectFault({ command: 'LIST', path: 'old' });
+        server.injectFault({ command: 'DELE', path: 'b.txt' });
+        const stats = await deploy({ clean_remote_files: true });
+        assert.deepEqual(stats.errors, []);
+        assert.deepEqual(server.listFiles('/site'), ['.deploy_ftp_hash.json', 'index.html']);
+    });
+
+    it('retries temporary replies without reconnecting', async () => {
+        writeLocal({ 'a.txt': 'a' });
+        server.injectFault({ command: 'STOR', path: 'a.txt', reply: 450 });
+        const stats = await deploy();
+        assert.deepEqual(stats.errors, []);
+        assert.equal(stats.totals.retries, 1);
+        assert.equal(server.connectionCount, 1);
+    });
+
+    it('fails a file after the retries run out and keeps the manifest consistent', async () => {
+        writeLocal({ 'a.txt': 'a', 'b.txt': 'b' });
+        server.injectFault({ command: 'STOR', path: 'b.txt', times: 3 });
+        const stats = await deploy({ max_retries: 3 });
+        assert.deepEqual(stats.failures.map((error) => [error.path, error.category]), [['b.txt', 'network']]);
+        const manifest = parseManifest(JSON.parse(server.readFile(HASH_FILE)));
+        assert.ok(manifest.files['a.txt']);
+        assert.equal(manifest.files['b.txt'], undefined);
+        const retry = await deploy();
+        assert.deepEqual(retry.uploaded, ['b.txt']);
+    });
+
+    it('fails permanent replies at once', async () => {
+        writeLocal({ 'a.txt': 'a' });
+        server.injectFault({ command: 'STOR', path: 'a.txt', reply: 553 });
+        const stats = await deploy();
+        assert.deepEqual(stats.failures.map((error) => [error.code, error.category]), [['FTP_553', 'permanent']]);
+        assert.equal(stats.totals.retries, 0);
+    });
+});
+
+describe('release history', () => {
+    beforeEach(() => setUp());
+    afterEach(tearDown);
+
+    it('keeps the live file when the replacing upload fails', async () => {
+        writeLocal({ 'a.txt': 'one' });
+        await deploy({ keep_releases: 5 });
+        writeLocal({ 'a.txt': 'two' });
+        server.injectFault({ command: 'STOR', path: 'a.txt', reply: 553 });
+        const stats = await deploy({ keep_releases: 5 });
+        assert.deepEqual(stats.failures.map((error) => error.code), ['FTP_553']);
+        assert.equal(server.readFile('/site/a.txt'), 'one');
+        assert.deepEqual(server.listFiles('/site'), ['.deploy_ftp_hash.json', 'a.txt']);
+        assert.deepEqual(server.listFiles('/site.releases'), ['1/release.json']);
+    });
+
+    it('backs up replaced files and rolls them back', async () => {
+        writeLocal({ 'a.txt': 'one' });
+        await deploy({ keep_releases: 5 });
+        writeLocal({ 'a.txt': 'two' });
+        const stats = await deploy({ keep_releases: 5 });
+        assert.deepEqual(stats.errors, []);
+        assert.equal(server.readFile('/site/a.txt'), 'two');
+        assert.equal(server.readFile('/site.releases/2/files/a.txt'), 'one');
+        const rollback = await createDeployer({ keep_releases: 5 }).rollback();
+        assert.deepEqual(rollback.errors, []);
+        assert.equal(server.readFile('/site/a.txt'), 'one');
+    });
+
+    it('keeps backups of replaced and deleted files outside the served tree', async () => {
+        writeLocal({ 'a.txt': 'one', 'secret.env': 'KEY=1' });
+        await deploy({ keep_releases: 5 });
+        fs.rmSync(path.join(localDir, 'secret.env'));
+        writeLocal({ 'a.txt': 'two' });
+        const stats = await deploy({ keep_releases: 5, clean_remote_files: true });
+        assert.deepEqual(stats.errors, []);
+        assert.deepEqual(server.listFiles('/site'), ['.deploy_ftp_hash.json', 'a.txt']);
+        assert.deepEqual(server.listFiles('/site.releases'), ['1/release.json', '2/files/a.txt', '2/files/secret.env', '2/release.json']);
+    });
+
+    it('keeps no history when deploying to the server root', async () => {
+        writeLocal({ 'a.txt': 'one' });
+        await deploy({ keep_releases: 5, remote_dir: '/' });
+        writeLocal({ 'a.txt': 'two' });
+        const stats = await deploy({ keep_releases: 5, remote_dir: '/' });
+        assert.deepEqual(stats.errors, []);
+        assert.deepEqual(server.listFiles(), ['.deploy_ftp_hash.json', 'a.txt']);
+    });
+});
+
+describe('plan and apply', () => {
+    beforeEach(() => setUp());
+    afterEach(tearDown);
+
+    it('plans without changing the server and applies exactly the plan', async () => {
+        writeLocal({ 'index.html': 'home', 'old/page.html': 'old' });
+        await deploy();
+        fs.rmSync(path.join(localDir, 'old'), { recursive: true });
+        writeLocal({ 'index.html': 'new home' });
+        const before = snapshot();
+        const plan = await createDeployer({ clean_remote_files: true }).plan();
+        assert.deepEqual(snapshot(), before);
+        assert.deepEqual(plan.mappings[0].uploads.map((upload) => upload.path), ['index.html']);
+        assert.deepEqual(plan.mappings[0].removals, ['old/page.html']);
+        assert.deepEqual(plan.mappings[0].directory_removals, ['old']);
+        // Files added after planning are not part of the plan
+        writeLocal({ 'late.html': 'late' });
+        const stats = await createDeployer({ clean_remote_files: true }).apply(parsePlan(JSON.parse(JSON.stringify(plan))));
+        assert.deepEqual(stats.errors, []);
+        assert.deepEqual(stats.uploaded, ['index.html']);
+        assert.deepEqual(server.listFiles('/site'), ['.deploy_ftp_hash.json', 'index.html']);
+        assert.equal(server.readFile('/site/index.html'), 'new home');
+    });
+
+    it('refuses a plan when the remote hash file changed since', async () => {
+        writeLocal({ 'index.html': 'home' });
+        await deploy();
+        writeLocal({ 'index.html': 'new home' });
+        const plan = await createDeployer().plan();
+        writeLocal({ 'app.js': 'app' });
+        await deploy();
+        const before = snapshot();
+        const stats = await createDeployer().apply(plan);
+        assert.deepEqual(stats.failures.map((error) => error.code), ['PLAN_STALE']);
+        assert.deepEqual(snapshot(), before);
+    });
+
+    it('refuses a plan when a planned local file changed since', async () => {
+        writeLocal({ 'index.html': 'home' });
+        const plan = await createDeployer().plan();
+        assert.equal(plan.mappings[0].manifest_digest, null);
+        writeLocal({ 'index.html': 'edited after review' });
+        const stats = await createDeployer().apply(plan);
+        assert.deepEqual(stats.failures.map((error) => error.code), ['PLAN_STALE']);
+        assert.ok(!server.exists('/site/index.html'));
+    });
+
+    it('rejects malformed plan files', async () => {
+        writeLocal({ 'index.html': 'home' });
+        const plan = JSON.parse(JSON.stringify(await createDeployer().plan()));
+        assert.deepEqual(parsePlan(plan), plan);
+        assert.throws(() => parsePlan(null), /Unrecognized plan file format/);
+        assert.throws(() => parsePlan({ ...plan, mappings: [{ ...plan.mappings[0], uploads: [null] }] }), /Unrecognized plan file format/);
+        assert.throws(() => parsePlan({ ...plan, mappings: [{ ...plan.mappings[0], permissions: null }] }), /Unrecognized plan file format/);
+        // Paths leaving remote_dir, invalid modes and sizes are refused, whatever the shape
+        const upload = plan.mappings[0].uploads[0];
+        const tampered = [
+            { uploads: [{ ...upload, path: '/etc/passwd' }] },
+            { uploads: [{ ...upload, path: '../outside.html' }] },
+            { uploads: [{ ...upload, size: -1 }] },
+            { uploads: [{ ...upload, size: '5' }] },
+            { removals: ['../../home/user/.ssh/authorized_keys'] },
+            { removals: ['/index.html'] },
+            { directory_removals: ['css/../..'] },
+            { permissions: { 'index.html': '644; DELE index.html' } },
+            { permissions: { '../cgi-bin/': '777' } }
+        ];
+        for (const change of tampered) {
+            assert.throws(() => parsePlan({ ...plan, mappings: [{ ...plan.mappings[0], ...change }] }), /Unrecognized plan file format/, JSON.stringify(change));
+        }
+        assert.deepEqual(parsePlan({ ...plan, mappings: [{ ...plan.mappings[0], permissions: { 'index.html': '644', 'css/': '755' } }] }).mappings[0].permissions, { 'index.html': '644', 'css/': '755' });
+        assert.throws(() => parsePlan({ ...plan, version: 99 }), /newer deploy-ftp/);
+    });
+});
+
+describe('FTPS', () => {
+    beforeEach(() => setUp({ tls: { key: TEST_KEY, cert: TEST_CERT } }));
+    afterEach(tearDown);
+
+    it('deploys over explicit TLS', async () => {
+        writeLocal({ 'index.html': 'secure', 'css/site.css': 'body {}' });
+        const stats = await deploy();
+        assert.deepEqual(stats.errors, []);
+        assert.equal(server.readFile('/site/index.html'), 'secure');
+        assert.ok(server.commands.some((command) => command.command === 'AUTH'));
+    });
+
+    it('rejects the self-signed certificate when verification is on', async () => {
+        writeLocal({ 'index.html': 'secure' });
+        const stats = await deploy({ secureOptions: { rejectUnauthorized: true } });
+        assert.equal(stats.failures[0]?.category, 'tls');
+        assert.ok(!server.exists('/site/index.html'));
+    });
+});
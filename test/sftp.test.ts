@@ -0,0 +1,148 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FtpDeploy, FtpDeployConfig, TestSftpServer, createTransport, silentLogger } from '../src';
+
+let server: TestSftpServer;
+let localDir: string;
+
+// Start a server and an empty local directory for one test
+async function setUp(): Promise<void> {
+    server = new TestSftpServer();
+    await server.start();
+    localDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-ftp-local-'));
+}
+
+async function tearDown(): Promise<void> {
+    await server.stop();
+    fs.rmSync(localDir, { recursive: true, force: true });
+}
+
+// Write local files, creating their directories
+function writeLocal(files: Record<string, string>): void {
+    for (const [file, content] of Object.entries(files)) {
+        const filePath = path.join(localDir, file);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+    }
+}
+
+function deploy(options: Partial<FtpDeployConfig> = {}) {
+    return new FtpDeploy({
+        ...server.config(),
+        local_dir: localDir,
+        remote_dir: '/site',
+        logger: silentLogger,
+        hash_cache: false,
+        keep_releases: 0,
+        retry_delay: 10,
+        ...options
+    } as FtpDeployConfig).deploy();
+}
+
+describe('SFTP deploys', () => {
+    beforeEach(setUp);
+    afterEach(tearDown);
+
+    it('uploads changed files and removes orphans', async () => {
+        writeLocal({ 'index.html': 'home', 'old/page.html': 'old' });
+        const first = await deploy();
+        assert.deepEqual(first.errors, []);
+        assert.equal(server.readFile('/site/old/page.html'), 'old');
+        fs.rmSync(path.join(localDir, 'old'), { recursive: true });
+        writeLocal({ 'index.html': 'new home' });
+        const stats = await deploy({ clean_remote_files: true });
+        assert.deepEqual(stats.errors, []);
+        assert.deepEqual(stats.uploaded, ['index.html']);
+        assert.deepEqual(stats.removed, ['old/page.html']);
+        assert.deepEqual(server.listFiles('/site'), ['.deploy_ftp_hash.json', 'index.html']);
+        assert.ok(!server.exists('/site/old'));
+    });
+
+    it('sets permission modes with chmod', async () => {
+        writeLocal({ 'run.sh': 'echo hi', 'index.html': 'home' });
+        const stats = await deploy({ permissions: { '*.sh': '755' } });
+        assert.deepEqual(stats.errors, []);
+        assert.equal(fs.statSync(server.path('/site/run.sh')).mode & 0o777, 0o755);
+    });
+
+    it('keeps an upload whose chmod fails and retries the chmod next run', async () => {
+        writeLocal({ 'run.sh': 'echo hi' });
+        server.injectFault({ command: 'SETSTAT', path: 'run.sh', reply: 3 });
+        const first = await deploy({ permissions: { '*.sh': '755' } });
+        assert.deepEqual(first.uploaded, ['run.sh']);
+        assert.deepEqual(first.files.map((file) => [file.action, file.status]), [['upload', 'success'], ['chmod', 'failed']]);
+        assert.equal(server.readFile('/site/run.sh'), 'echo hi');
+        const second = await deploy({ permissions: { '*.sh': '755' } });
+        assert.deepEqual(second.errors, []);
+        assert.deepEqual(second.uploaded, []);
+        assert.equal(fs.statSync(server.path('/site/run.sh')).mode & 0o777, 0o755);
+    });
+
+    it('streams throttled uploads', async () => {
+        writeLocal({ 'data.bin': 'x'.repeat(64 * 1024) });
+        const stats = await deploy({ max_bandwidth: 16 * 1024 * 1024 });
+        assert.deepEqual(stats.errors, []);
+        assert.equal(server.readFile('/site/data.bin'), 'x'.repeat(64 * 1024));
+    });
+
+    it('replaces backed up files without renaming over them', async () => {
+        writeLocal({ 'a.txt': 'one' });
+        await deploy({ keep_releases: 5 });
+        writeLocal({ 'a.txt': 'two' });
+        const stats = await deploy({ keep_releases: 5 });
+        assert.deepEqual(stats.errors, []);
+        assert.equal(server.readFile('/site/a.txt'), 'two');
+        assert.equal(server.readFile('/site.releases/2/files/a.txt'), 'one');
+    });
+
+    it('reconnects and retries after a dropped connection', async () => {
+        writeLocal({ 'a.txt': 'a', 'b.txt': 'b' });
+        server.injectFault({ command: 'OPEN', path: 'b.txt' });
+        const stats = await deploy();
+        assert.deepEqual(stats.errors, []);
+        assert.equal(server.readFile('/site/b.txt'), 'b');
+        assert.equal(stats.totals.retries, 1);
+        assert.ok(server.connectionCount >= 2);
+    });
+
+    it('fails SFTP permission errors at once', async () => {
+        writeLocal({ 'a.txt': 'a' });
+        server.injectFault({ command: 'OPEN', path: 'a.txt', reply: 3 });
+        const stats = await deploy();
+        assert.deepEqual(stats.failures.map((error) => [error.code, error.category]), [['SFTP_3', 'permanent']]);
+        assert.equal(stats.totals.retries, 0);
+    });
+});
+
+describe('SFTP transport', () => {
+    beforeEach(setUp);
+    afterEach(tearDown);
+
+    it('appends the rest of an interrupted upload', async () => {
+        const localFile = path.join(localDir, 'big.bin');
+        fs.writeFileSync(localFile, 'first half, second half');
+        server.writeFile('/big.bin', 'first half, ');
+        const transport = createTransport(server.config());
+        await transport.connect();
+        try {
+            await transport.appendFrom(localFile, '/big.bin', 12);
+            assert.equal(server.readFile('/big.bin'), 'first half, second half');
+            assert.equal(await transport.size('/big.bin'), 23);
+        } finally {
+            transport.close();
+        }
+    });
+
+    it('reports missing files as not found', async () => {
+        const transport = createTransport(server.config());
+        await transport.connect();
+        try {
+            await assert.rejects(transport.size('/missing.txt'), (err: any) => err.code === 2);
+        } finally {
+            transport.close();
+        }
+    });
+});